@@ -0,0 +1,140 @@
+// Incrementally builds a canonical rabin tree from a sequence of entries, one level at a time.
+// Entries are chunked as soon as the tree's chunker finds a boundary, so only O(B log(n)) entries are kept in memory.
+// Each level keeps the state of its chunker, so every entry is only hashed once.
+//
+// Besides single values, whole closed subtrees (see RabinCursor) can be pushed as one entry.  This is safe whenever
+// all the levels below the subtree are empty, since chunking always restarts from a boundary and so the subtree
+// would be rebuilt exactly as it is.
+
+import { CID } from './multiformat';
+import { sum } from './helpers';
+import { RabinEntry } from './cursor';
+import { ChunkEntry, ChunkerConfig, ChunkScanner } from './chunk';
+
+type RabinBuilderLevel<K, S> = {
+    total:number;
+    count:number[];
+    keys:K[];
+    hashes:CID[];
+    summaries:S[];
+
+    // entries before scanned have been fed to the scanner
+    scanner:ChunkScanner;
+    scanned:number;
+}
+
+export class RabinBuilder<K, S = unknown> {
+    private _levels:RabinBuilderLevel<K, S>[] = [];
+
+    constructor (
+        public serializeNode:(leaf:boolean, count:number[], keys:K[], hashes:CID[], summaries:S[]) => Promise<CID>,
+        public chunker:ChunkerConfig,
+
+        // hash and size of an entry of a level, as the tree's chunk function sees them
+        public chunkEntry:(level:{ keys:K[], hashes:CID[], summaries:S[] }, index:number) => ChunkEntry,
+
+        // combines the summaries of the entries of a node into the summary of the node, if the tree has a reducer
+        public reduce?:(summaries:S[]) => S,
+    ) {}
+
+    private _level (height:number) {
+        while (this._levels.length <= height) {
+            this._levels.push({
+                total: 0,
+                count: [],
+                keys: [],
+                hashes: [],
+                summaries: [],
+                scanner: new ChunkScanner(this.chunker),
+                scanned: 0,
+            });
+        }
+        return this._levels[height];
+    }
+
+    /**
+     * Tests if a subtree of the given height can be pushed as a single entry
+     *
+     * @param height The height of the subtree
+     * @returns true if all levels below height are empty
+     */
+    public aligned (height:number) {
+        for (let i = 0; i < height && i < this._levels.length; ++i) {
+            if (this._levels[i].hashes.length > 0) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Appends an entry to the tree
+     *
+     * @param height The height of the entry, 0 for values, 1 for leaf nodes, etc.
+     * @param entry The entry to append
+     */
+    public async push (height:number, entry:RabinEntry<K, S>) {
+        if (!this.aligned(height)) {
+            throw new Error('rabin-builder: subtree is not aligned to a chunk boundary');
+        }
+        const level = this._level(height);
+        level.total += 1;
+        level.count.push(entry.count);
+        level.keys.push(entry.key);
+        level.hashes.push(entry.hash);
+        level.summaries.push(entry.summary);
+        await this._flush(height, false);
+    }
+
+    // emits chunks of a level into the next level, if final the trailing entries are emitted too
+    private async _flush (height:number, final:boolean) {
+        const level = this._levels[height];
+        while (level.scanned < level.hashes.length) {
+            const { hash, size } = this.chunkEntry(level, level.scanned++);
+            if (level.scanner.next(hash, size)) {
+                await this._emit(height, level.scanned, final);
+            }
+        }
+        if (final && level.hashes.length > 0) {
+            level.scanner.reset();
+            await this._emit(height, level.hashes.length, final);
+        }
+    }
+
+    // turns the first hi entries of a level into a node
+    private async _emit (height:number, hi:number, final:boolean) {
+        const level = this._levels[height];
+        const count = level.count.splice(0, hi);
+        const keys = level.keys.splice(0, hi);
+        const hashes = level.hashes.splice(0, hi);
+        const summaries = level.summaries.splice(0, hi);
+        level.scanned -= hi;
+        const cid = await this.serializeNode(height === 0, count, keys, hashes, summaries);
+
+        const parent = this._level(height + 1);
+        parent.total += 1;
+        parent.count.push(sum(count, 0, count.length));
+        parent.keys.push(keys[0]);
+        parent.hashes.push(cid);
+        parent.summaries.push(this.reduce ? this.reduce(summaries) : undefined);
+        if (!final) {
+            await this._flush(height + 1, false);
+        }
+    }
+
+    /**
+     * Flushes all remaining entries
+     *
+     * @returns The CID of the root of the tree, or null if no entries were pushed
+     */
+    public async finish () : Promise<CID|null> {
+        for (let h = 0; h < this._levels.length; ++h) {
+            // the root is the first level with only one node
+            if (h > 0 && this._levels[h].total === 1 && this._levels.slice(h + 1).every((l) => l.total === 0)) {
+                return this._levels[h].hashes[0];
+            }
+            await this._flush(h, true);
+        }
+        return null;
+    }
+}
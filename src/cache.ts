@@ -0,0 +1,103 @@
+// An LRU cache of decoded tree nodes.  Since nodes are content addressed they never change, so we never need to
+// invalidate anything, only evict.  A single cache can be shared between any number of RabinList/RabinBTree instances.
+//
+// Cached nodes are handed out by reference to every tree sharing the cache, so they are frozen when they are stored:
+// code which modifies a cached node by mistake fails loudly instead of corrupting the nodes of other trees.  Only the
+// node and the arrays it owns are frozen, the objects they point to (chunker configs, keys, summaries) may be shared
+// with code outside the cache.
+
+type NodeCacheItem = {
+    node:any;
+    size:number;
+}
+
+// freezes a decoded node and its arrays (count, keys, hashes, summaries) but not the values in them
+function freezeNode (node:any) {
+    if (node && typeof node === 'object') {
+        Object.keys(node).forEach((key) => {
+            if (Array.isArray(node[key])) {
+                Object.freeze(node[key]);
+            }
+        });
+        Object.freeze(node);
+    }
+}
+
+export class NodeCache {
+    public hits = 0;
+    public misses = 0;
+    public bytes = 0;
+
+    // Map iterates in insertion order, so the first item is always the least recently used
+    private _items = new Map<string, NodeCacheItem>();
+
+    constructor (
+        public maxNodes:number = 4096,
+        public maxBytes:number = Infinity,
+    ) {}
+
+    /**
+     * Looks up a node in the cache
+     *
+     * @param key The key of the node
+     * @returns The cached node or undefined if the node was not found
+     */
+    public get<T> (key:string) : T|undefined {
+        const item = this._items.get(key);
+        if (!item) {
+            this.misses += 1;
+            return undefined;
+        }
+        this.hits += 1;
+        this._items.delete(key);
+        this._items.set(key, item);
+        return item.node;
+    }
+
+    /**
+     * Stores a node in the cache, evicting the least recently used nodes if the cache is full.  The node is frozen.
+     *
+     * @param key The key of the node
+     * @param node The decoded node
+     * @param size The size of the encoded node in bytes
+     */
+    public set<T> (key:string, node:T, size:number) {
+        const prev = this._items.get(key);
+        if (prev) {
+            this.bytes -= prev.size;
+            this._items.delete(key);
+        }
+        if (size > this.maxBytes) {
+            return;
+        }
+        freezeNode(node);
+        this._items.set(key, { node, size });
+        this.bytes += size;
+        while (this._items.size > this.maxNodes || this.bytes > this.maxBytes) {
+            const oldest:string = this._items.keys().next().value;
+            this.bytes -= this._items.get(oldest).size;
+            this._items.delete(oldest);
+        }
+    }
+
+    // number of nodes in the cache
+    public get size () {
+        return this._items.size;
+    }
+
+    // fraction of lookups which were served from the cache
+    public hitRate () {
+        const total = this.hits + this.misses;
+        if (total === 0) {
+            return 0;
+        }
+        return this.hits / total;
+    }
+
+    public clear () {
+        this._items.clear();
+        this.bytes = 0;
+        this.hits = 0;
+        this.misses = 0;
+    }
+}
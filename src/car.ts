@@ -0,0 +1,154 @@
+// Import and export of trees as CARv1 archives, see https://ipld.io/specs/transport/car/carv1/
+//
+// A CAR file is a dag-cbor header { version: 1, roots: [CID] } followed by a sequence of blocks.  The header and each
+// block are prefixed with their length as a varint, and each block is stored as the bytes of its CID followed by its data.
+
+import { Block, CID, Codec, decode, decodeFirstCID, decodeVarint, encodeVarint, Hasher, Storage } from './multiformat';
+import { RabinList } from './rabin-list';
+import { RabinBTree } from './rabin-b-tree';
+import { concat } from './helpers';
+
+const _dagCbor = (<any>require)('@ipld/dag-cbor');
+
+/**
+ * Async generator, exports every block reachable from a root as a CAR archive, including the values in the leaves.
+ * Blocks are written in depth first order starting from the root.
+ *
+ * @param tree The tree which root belongs to, blocks are read from its storage
+ * @param root The root of the tree
+ * @yields The bytes of the archive
+ */
+export async function* exportCAR (tree:RabinList|RabinBTree<any>, root:CID) : AsyncGenerator<Uint8Array> {
+    const header = _dagCbor.encode({ version: 1, roots: [ root ] });
+    yield concat([ encodeVarint(header.length), header ]);
+
+    async function section (cid:CID) {
+        const block:Block<any> = await tree.storage.get(cid);
+        if (!block) {
+            throw new Error('rabin-car: missing block ' + cid.toString());
+        }
+        return concat([ encodeVarint(cid.bytes.length + block.bytes.length), cid.bytes, block.bytes ]);
+    }
+
+    const visited = new Set<string>();
+    const stack = [ root ];
+    visited.add(root.toString());
+    while (stack.length > 0) {
+        const cid = stack.pop();
+        yield await section(cid);
+        const node = await tree.parseNode(cid);
+        for (let i = node.hashes.length - 1; i >= 0; --i) {
+            const child = node.hashes[i];
+            if (visited.has(child.toString())) {
+                continue;
+            }
+            visited.add(child.toString());
+            if (node.leaf) {
+                yield await section(child);
+            } else {
+                stack.push(child);
+            }
+        }
+    }
+}
+
+// buffers a stream of bytes so we can read it in arbitrary pieces
+class CARReader {
+    private _buffer = new Uint8Array(0);
+    private _offset = 0;
+
+    constructor (
+        private _chunks:AsyncIterator<Uint8Array>|Iterator<Uint8Array>,
+    ) {}
+
+    // reads chunks until at least n bytes are buffered, returns false if the stream ends first
+    private async _fill (n:number) {
+        while (this._buffer.length - this._offset < n) {
+            const { done, value } = await this._chunks.next();
+            if (done) {
+                return false;
+            }
+            this._buffer = concat([ this._buffer.subarray(this._offset), value ]);
+            this._offset = 0;
+        }
+        return true;
+    }
+
+    // reads a varint, or returns -1 at the end of the stream
+    public async varint () : Promise<number> {
+        for (let n = 1; ; ++n) {
+            if (!await this._fill(n)) {
+                if (n === 1) {
+                    return -1;
+                }
+                throw new Error('rabin-car: unexpected end of archive');
+            }
+            if (this._buffer[this._offset + n - 1] < 0x80) {
+                const [ value, length ] = decodeVarint(this._buffer.subarray(this._offset));
+                this._offset += length;
+                return value;
+            }
+        }
+    }
+
+    public async bytes (n:number) {
+        if (!await this._fill(n)) {
+            throw new Error('rabin-car: unexpected end of archive');
+        }
+        const result = this._buffer.slice(this._offset, this._offset + n);
+        this._offset += n;
+        return result;
+    }
+}
+
+/**
+ * Loads a CAR archive into storage.  Each block is hashed and checked against its CID before it is stored.
+ *
+ * @param storage The storage which blocks are written to
+ * @param car The bytes of the archive
+ * @param spec The hashers and codecs used by the blocks in the archive
+ * @returns The roots from the header of the archive
+ */
+export async function importCAR (storage:Storage, car:AsyncIterable<Uint8Array>|Iterable<Uint8Array>, spec:{
+    hashers:Hasher[],
+    codecs:Codec[],
+}) : Promise<CID[]> {
+    const chunks = Symbol.asyncIterator in car ?
+        (<AsyncIterable<Uint8Array>>car)[Symbol.asyncIterator]() :
+        (<Iterable<Uint8Array>>car)[Symbol.iterator]();
+    const reader = new CARReader(chunks);
+
+    const headerLength = await reader.varint();
+    if (headerLength < 0) {
+        throw new Error('rabin-car: empty archive');
+    }
+    const header = _dagCbor.decode(await reader.bytes(headerLength));
+    if (!header || header.version !== 1 || !Array.isArray(header.roots)) {
+        throw new Error('rabin-car: invalid header');
+    }
+
+    while (true) {
+        const length = await reader.varint();
+        if (length < 0) {
+            break;
+        }
+        const section = await reader.bytes(length);
+        const [ cid, bytes ] = decodeFirstCID(section);
+        const hasher = spec.hashers.find((h) => h.code === cid.multihash.code);
+        const codec = spec.codecs.find((c) => c.code === cid.code);
+        if (!hasher || !codec) {
+            throw new Error('rabin-car: unsupported block ' + cid.toString());
+        }
+        const block = await decode<any>({
+            bytes,
+            hasher,
+            codec,
+        });
+        if (!block.cid.equals(cid)) {
+            throw new Error('rabin-car: hash mismatch for block ' + cid.toString());
+        }
+        await storage.put(block);
+    }
+
+    return header.roots;
+}
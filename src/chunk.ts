@@ -16,32 +16,234 @@ const MASK_LO = 0x03000000;
 
 const UINT32_MASK = ~0;
 
+export type ChunkerConfig = {
+    // no chunk boundary in the first min entries
+    min:number;
+
+    // always a boundary after max entries
+    max:number;
+
+    // expected number of entries between boundaries, including min
+    average:number;
+
+    // number of trailing entries which decide a boundary, at most 32
+    window:number;
+
+    // if not 0, always a boundary before the encoded size of a node would exceed this many bytes
+    maxBytes:number;
+}
+
+// the default parameters use the original masks above rather than ones computed from average and window, so trees
+// built before the chunker was configurable stay canonical.  the masks only test 4 bits, but the carry bits tested by
+// MASK_HI are set for most entries, so boundaries are rare: nodes have about 312 entries on average (measured, see
+// the tests).  average is what the masks actually produce, so a config asking for the same average gets these masks
+export const DEFAULT_CHUNKER:ChunkerConfig = {
+    min: MIN_CHUNK_SIZE,
+    max: MAX_CHUNK_SIZE,
+    average: 312,
+    window: 32,
+    maxBytes: 0,
+};
+
+// conservative estimates of the encoded size of a node without its entries, and of the count and separators of an entry
+export const NODE_OVERHEAD_BYTES = 256;
+export const ENTRY_OVERHEAD_BYTES = 16;
+
+// a boundary may only depend on the entries before it, otherwise changing an entry could move the boundary in front of
+// it and trees would stop being canonical.  so instead of checking whether the next entry still fits, a node ends as
+// soon as an entry of this size might not fit anymore.  nodes can only exceed the byte limit if some of their entries
+// are larger than this
+export const MAX_ENTRY_BYTES = 1024;
+
+export function isDefaultChunker (config:ChunkerConfig) {
+    return sameChunker(config, DEFAULT_CHUNKER);
+}
+
+export function sameChunker (a:ChunkerConfig, b:ChunkerConfig) {
+    return sameMasks(a, b) && a.maxBytes === b.maxBytes;
+}
+
+// true if a and b find the same boundaries when there is no byte limit
+function sameMasks (a:ChunkerConfig, b:ChunkerConfig) {
+    return a.min === b.min && a.max === b.max && a.average === b.average && a.window === b.window;
+}
+
+// fills in missing parameters with defaults and checks that the result makes sense
+export function resolveChunker (config?:Partial<ChunkerConfig>) : ChunkerConfig {
+    const result = {
+        min: config && 'min' in config ? config.min : DEFAULT_CHUNKER.min,
+        max: config && 'max' in config ? config.max : DEFAULT_CHUNKER.max,
+        average: config && 'average' in config ? config.average : DEFAULT_CHUNKER.average,
+        window: config && 'window' in config ? config.window : DEFAULT_CHUNKER.window,
+        maxBytes: config && 'maxBytes' in config ? config.maxBytes : DEFAULT_CHUNKER.maxBytes,
+    };
+    if (!(Number.isInteger(result.min) && Number.isInteger(result.max) && Number.isInteger(result.window) &&
+        Number.isInteger(result.maxBytes) && (result.maxBytes === 0 || result.maxBytes > NODE_OVERHEAD_BYTES + MAX_ENTRY_BYTES) &&
+        result.min >= 1 && result.min < result.average && result.average <= result.max &&
+        result.window >= 1 && result.window <= 32 && chunkBits(result) <= result.window)) {
+        throw new Error('rabin-chunk: invalid chunker config ' + JSON.stringify(config));
+    }
+    return result;
+}
+
+// number of fingerprint bits which must be zero at a boundary, each bit halves the chance of a boundary
+function chunkBits (config:ChunkerConfig) {
+    return Math.max(0, Math.round(Math.log2(config.average - config.min)));
+}
+
+// the fingerprint is shifted by one bit per entry, so bit k only depends on the last k + 1 entries.  we use the highest
+// bits inside the window
+function chunkMask (config:ChunkerConfig) {
+    const bits = chunkBits(config);
+    return ((Math.pow(2, bits) - 1) * Math.pow(2, config.window - bits)) >>> 0;
+}
+
 // just take last 4 bytes of cid for hash
-function gear (cid:CID) {
+export function gear (cid:CID) {
     const bytes = cid.bytes;
     return bytes[bytes.length - 1] + (bytes[bytes.length - 2] << 8) + (bytes[bytes.length - 3] << 16) + (bytes[bytes.length - 4] << 24);
 }
 
-export function nextChunk (data:CID[], start:number) {
-    const n = data.length - start;
-    if (n < MIN_CHUNK_SIZE) {
+// for data which isn't already a hash (e.g. keys) we need to hash it ourselves
+// FNV-1a followed by the murmur3 finalizer, so that every input bit affects every output bit
+// the result is a signed 32 bit int, same as gear
+export function hashBytes (bytes:Uint8Array) {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; ++i) {
+        h = Math.imul(h ^ bytes[i], 0x01000193);
+    }
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return h ^ (h >>> 16);
+}
+
+// finds chunk boundaries in a sequence of entries which are fed one at a time, so that a caller which appends to a
+// level can resume where it stopped instead of scanning the level from the start again
+export class ChunkScanner {
+    private _maskHi = MASK_HI;
+    private _maskLo = MASK_LO;
+    private _budget:number;
+    private _flo = 0;
+    private _fhi = 0;
+    private _bytes = 0;
+
+    // number of entries since the last boundary
+    public length = 0;
+
+    constructor (
+        public config:ChunkerConfig = DEFAULT_CHUNKER,
+    ) {
+        if (!sameMasks(config, DEFAULT_CHUNKER)) {
+            this._maskHi = 0;
+            this._maskLo = chunkMask(config);
+        }
+        this._budget = config.maxBytes > 0 ? config.maxBytes - NODE_OVERHEAD_BYTES : Infinity;
+    }
+
+    // true if the size of entries matters
+    public get limited () {
+        return this._budget < Infinity;
+    }
+
+    /**
+     * Feeds the next entry, the scanner starts over after a boundary
+     *
+     * @param hash The hash of the entry
+     * @param size The encoded size of the entry, only used if the scanner is limited
+     * @returns true if there is a boundary after the entry
+     */
+    public next (hash:number, size:number) : boolean {
+        const i = this.length++;
+        if (this.limited) {
+            this._bytes += size;
+        }
+        const x = ((this._flo << 1) >>> 0) + hash;
+        this._fhi = (((this._fhi << 1) >>> 0) + (x > UINT32_MASK ? 1 : 0)) >>> 0;
+        this._flo = x >>> 0;
+        const config = this.config;
+        if ((this._bytes + MAX_ENTRY_BYTES > this._budget) ||
+            ((i >= config.min) && ((i >= config.max) || (((this._maskHi & this._fhi) === 0) && ((this._maskLo & this._flo) === 0))))) {
+            this.reset();
+            return true;
+        }
+        return false;
+    }
+
+    public reset () {
+        this._flo = 0;
+        this._fhi = 0;
+        this._bytes = 0;
+        this.length = 0;
+    }
+}
+
+// returns the end of the chunk starting at start, or -1 if there is not enough data to find the end
+// by default items are CIDs, for other items pass in a hash function.  if the config has a byte limit, size must give
+// the encoded size of each item
+export function nextChunk (data:CID[], start:number) : number;
+export function nextChunk<T> (
+    data:T[],
+    start:number,
+    hash:(item:T, index:number) => number,
+    config?:ChunkerConfig,
+    size?:(item:T, index:number) => number,
+) : number;
+export function nextChunk (
+    data:any[],
+    start:number,
+    hash:(item:any, index:number) => number = gear,
+    config:ChunkerConfig = DEFAULT_CHUNKER,
+    size?:(item:any, index:number) => number,
+) {
+    const scanner = new ChunkScanner(config);
+    if (data.length - start < config.min && !scanner.limited) {
         return -1;
     }
-    let ptr = start;
-    let flo = 0;
-    let fhi = 0;
-    for (let i = 0; i < MIN_CHUNK_SIZE; ++i) {
-        const x = ((flo << 1) >>> 0) + gear(data[ptr++]);
-        fhi = (((fhi << 1) >>> 0) + (x > UINT32_MASK ? 1 : 0)) >>> 0;
-        flo = x >>> 0;
-    }
-    for (let i = MIN_CHUNK_SIZE; i < n; ++i) {
-        const x = ((flo << 1) >>> 0) + gear(data[ptr++]);
-        fhi = (((fhi << 1) >>> 0) + (x > UINT32_MASK ? 1 : 0)) >>> 0;
-        flo = x >>> 0;
-        if ((i >= MAX_CHUNK_SIZE) || (((MASK_HI & fhi) === 0) && ((MASK_LO & flo) === 0))) {
-            return ptr;
+    for (let ptr = start; ptr < data.length; ++ptr) {
+        if (scanner.next(hash(data[ptr], ptr), scanner.limited ? size(data[ptr], ptr) : 0)) {
+            return ptr + 1;
         }
     }
     return -1;
-}
\ No newline at end of file
+}
+
+// what the chunker needs to know about an entry of a level
+export type ChunkEntry = {
+    hash:number;
+
+    // encoded size of the entry, only needed if the chunker has a byte limit
+    size:number;
+}
+
+// remembers the ChunkEntry of every entry of a level.  a level is chunked over and over while it grows, and encoding
+// keys and links to find their hash or size is not cheap, so this way each entry is only encoded once.  entries are
+// identified by position and checked against the parts they were computed from, so if a level is changed in place the
+// moved entries are simply computed again
+export class ChunkCache {
+    private _levels = new WeakMap<object, { parts:any[][], entries:ChunkEntry[] }>();
+
+    /**
+     * Looks up an entry of a level, computing it if it is not cached yet
+     *
+     * @param level The level
+     * @param index The index of the entry in the level
+     * @param parts Everything the entry is computed from, compared by identity
+     * @param compute Computes the entry
+     * @returns The entry
+     */
+    public get (level:object, index:number, parts:any[], compute:() => ChunkEntry) : ChunkEntry {
+        let cached = this._levels.get(level);
+        if (!cached) {
+            cached = { parts: [], entries: [] };
+            this._levels.set(level, cached);
+        }
+        const prev = cached.parts[index];
+        if (prev && prev.length === parts.length && prev.every((x, i) => x === parts[i])) {
+            return cached.entries[index];
+        }
+        const entry = compute();
+        cached.parts[index] = parts;
+        cached.entries[index] = entry;
+        return entry;
+    }
+}
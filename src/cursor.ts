@@ -0,0 +1,162 @@
+// A cursor walks the entries of a rabin tree in order, but instead of always descending to the leaves
+// it presents whole subtrees as single entries.  Callers can then decide whether to take the subtree
+// as a unit (e.g. because an identical subtree exists elsewhere) or expand it into its children.
+
+import { CID } from './multiformat';
+import { ChunkerConfig } from './chunk';
+
+export type RabinEntry<K, S = unknown> = {
+    count:number;
+    key:K;
+    hash:CID;
+
+    // summary of the entry, if the tree has a reducer (see reducer.ts)
+    summary?:S;
+}
+
+// height 0 = a value stored in a leaf, height 1 = a leaf node, etc.
+export type RabinPiece<K, S = unknown> = {
+    height:number;
+    entry:RabinEntry<K, S>;
+
+    // true if the subtree ends at a chunk boundary, so it can be reused verbatim in another tree.
+    // only subtrees on the right spine of a tree are open, since their end was forced by running out of data
+    closed:boolean;
+}
+
+export interface RabinNodeSource<K, S = unknown> {
+    parseNode(cid:CID) : Promise<{
+        leaf:boolean;
+        count:number[];
+        keys?:K[];
+        hashes:CID[];
+
+        // parameters the node was chunked with, if recorded
+        chunker?:ChunkerConfig;
+        chunking?:string;
+
+        // name of the reducer and the summary of each entry, if recorded
+        reducer?:string;
+        summaries?:S[];
+    }>;
+}
+
+type RabinCursorFrame<K, S> = {
+    height:number;
+    index:number;
+    spine:boolean;
+    entries:RabinEntry<K, S>[];
+}
+
+export class RabinCursor<K, S = unknown> {
+    private _stack:RabinCursorFrame<K, S>[] = null;
+
+    constructor (
+        public source:RabinNodeSource<K, S>,
+        public root:CID,
+    ) {}
+
+    private async _frame (cid:CID, spine:boolean) {
+        const node = await this.source.parseNode(cid);
+        const entries:RabinEntry<K, S>[] = [];
+        for (let i = 0; i < node.hashes.length; ++i) {
+            entries.push({
+                count: node.count[i],
+                key: node.keys ? node.keys[i] : undefined,
+                hash: node.hashes[i],
+                summary: node.summaries ? node.summaries[i] : undefined,
+            });
+        }
+        return { node, entries, spine };
+    }
+
+    private async _init () {
+        this._stack = [];
+        const { node, entries } = await this._frame(this.root, true);
+        if (entries.length === 0) {
+            return;
+        }
+
+        // compute height of the tree by walking down the left most path
+        let height = 1;
+        for (let n = node; !n.leaf; ++height) {
+            n = await this.source.parseNode(n.hashes[0]);
+        }
+        this._stack.push({
+            height: height - 1,
+            index: 0,
+            spine: true,
+            entries,
+        });
+    }
+
+    /**
+     * Returns the next piece in the cursor without consuming it
+     *
+     * @returns The next piece, or null if the cursor is exhausted
+     */
+    public async peek () : Promise<RabinPiece<K, S>|null> {
+        if (!this._stack) {
+            await this._init();
+        }
+        const top = this._stack[this._stack.length - 1];
+        if (!top) {
+            return null;
+        }
+        return {
+            height: top.height,
+            entry: top.entries[top.index],
+            closed: !top.spine || top.index < top.entries.length - 1,
+        };
+    }
+
+    /**
+     * Returns the first key after the current piece, or undefined if the current piece is the last
+     */
+    public nextKey () : K|undefined {
+        const n = this._stack.length;
+        const top = this._stack[n - 1];
+        if (top.index + 1 < top.entries.length) {
+            return top.entries[top.index + 1].key;
+        }
+        if (n > 1) {
+            const parent = this._stack[n - 2];
+            return parent.entries[parent.index].key;
+        }
+        return undefined;
+    }
+
+    /**
+     * Skips over the current piece
+     */
+    public next () {
+        this._stack[this._stack.length - 1].index += 1;
+        // frames below the top already point at their next unvisited entry, so we only need to pop
+        while (this._stack.length > 0) {
+            const top = this._stack[this._stack.length - 1];
+            if (top.index < top.entries.length) {
+                return;
+            }
+            this._stack.pop();
+        }
+    }
+
+    /**
+     * Replaces the current piece with its children
+     */
+    public async expand () {
+        const top = this._stack[this._stack.length - 1];
+        if (top.height === 0) {
+            throw new Error('rabin-cursor: cannot expand a value');
+        }
+        const spine = top.spine && top.index === top.entries.length - 1;
+        const { entries } = await this._frame(top.entries[top.index].hash, spine);
+        this.next();
+        this._stack.push({
+            height: top.height - 1,
+            index: 0,
+            spine,
+            entries,
+        });
+    }
+}
@@ -0,0 +1,171 @@
+// Storage which keeps each block in its own file, so trees survive restarts.
+//
+// Blocks are stored as <dir>/<shard>/<cid>, where the shard is the next to last 2 characters of the CID string (the
+// same scheme as go-ipfs' flatfs), which spreads blocks evenly over at most 1024 directories.  Writes go to a temporary
+// file first which is synced and then renamed into place, so a crash never leaves a partially written block behind, and
+// the directory is synced after the rename so that the block survives a crash.  keys skips files which are not blocks,
+// like temporary files left behind by a crash.
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Block, BlockNotFoundError, CID, Codec, createBlock, Hasher, parseCID, Storage } from './multiformat';
+
+export type FileStorageOptions = {
+    // codecs of all blocks which are read back, needed to decode them
+    codecs:Codec[];
+
+    // hashers of all blocks which are read back, only needed if verify is set
+    hashers?:Hasher[];
+
+    // if set, the hash of every block read is checked against its CID
+    verify?:boolean;
+}
+
+const TMP_SUFFIX = '.tmp';
+
+/**
+ * Turns bytes read from disk back into a block, checking the hash if options.verify is set
+ *
+ * @param cid The CID the bytes were stored under
+ * @param bytes The stored bytes
+ * @param options The codecs and hashers of the storage
+ * @returns The decoded block
+ */
+export async function decodeStoredBlock<T> (cid:CID, bytes:Uint8Array, options:FileStorageOptions) : Promise<Block<T>> {
+    const codec = options.codecs.find((c) => c.code === cid.code);
+    if (!codec) {
+        throw new Error('rabin-storage: unsupported codec for block ' + cid.toString());
+    }
+    if (options.verify) {
+        const hasher = (options.hashers || []).find((h) => h.code === cid.multihash.code);
+        if (!hasher) {
+            throw new Error('rabin-storage: unsupported hash for block ' + cid.toString());
+        }
+        const digest = await hasher.encode(bytes);
+        const expected = cid.multihash.digest;
+        if (digest.length !== expected.length || digest.some((b, i) => b !== expected[i])) {
+            throw new Error('rabin-storage: hash mismatch for block ' + cid.toString());
+        }
+    }
+    return createBlock<T>({ bytes, cid, codec });
+}
+
+// flushes the entries of a directory to disk, so that files created or renamed in it survive a crash
+async function syncDir (dir:string) {
+    const handle = await fs.open(dir, 'r');
+    try {
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Replaces the contents of a file.  The bytes are written to a temporary file which is synced to disk before it is
+ * renamed over the file, then the directory is synced, so after a crash the file has either its old or its new
+ * contents.
+ *
+ * @param file The file to write
+ * @param tmp The temporary file, in the same directory
+ * @param bytes The new contents
+ */
+export async function replaceFile (file:string, tmp:string, bytes:Uint8Array) {
+    const handle = await fs.open(tmp, 'w');
+    try {
+        await handle.writeFile(bytes);
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+    await fs.rename(tmp, file);
+    await syncDir(path.dirname(file));
+}
+
+export class FileStorage implements Storage {
+    private _tmpCounter = 0;
+
+    constructor (
+        public dir:string,
+        public options:FileStorageOptions,
+    ) {}
+
+    private _shard (key:string) {
+        return path.join(this.dir, key.slice(-3, -1));
+    }
+
+    private _path (cid:CID) {
+        const key = cid.toString();
+        return path.join(this._shard(key), key);
+    }
+
+    public async put<T> (block:Block<T>) {
+        const key = block.cid.toString();
+        const file = path.join(this._shard(key), key);
+        try {
+            await fs.access(file);
+            return;
+        } catch (e) {
+            // not written yet
+        }
+        if (await fs.mkdir(this._shard(key), { recursive: true })) {
+            await syncDir(this.dir);
+        }
+        const tmp = `${file}.${process.pid}.${this._tmpCounter++}${TMP_SUFFIX}`;
+        try {
+            await replaceFile(file, tmp, block.bytes);
+        } catch (e) {
+            await fs.unlink(tmp).catch(() => {});
+            throw e;
+        }
+    }
+
+    public async get<T> (cid:CID) : Promise<Block<T>> {
+        let bytes:Uint8Array;
+        try {
+            bytes = new Uint8Array(await fs.readFile(this._path(cid)));
+        } catch (e) {
+            if (e.code === 'ENOENT') {
+                throw new BlockNotFoundError(cid);
+            }
+            throw e;
+        }
+        return decodeStoredBlock<T>(cid, bytes, this.options);
+    }
+
+    public async delete (cid:CID) {
+        try {
+            await fs.unlink(this._path(cid));
+        } catch (e) {
+            if (e.code !== 'ENOENT') {
+                throw e;
+            }
+        }
+    }
+
+    public async* keys () {
+        let shards:string[] = [];
+        try {
+            shards = (await fs.readdir(this.dir, { withFileTypes: true })).filter((d) => d.isDirectory()).map((d) => d.name);
+        } catch (e) {
+            if (e.code !== 'ENOENT') {
+                throw e;
+            }
+        }
+        for (let i = 0; i < shards.length; ++i) {
+            const files = await fs.readdir(path.join(this.dir, shards[i]));
+            for (let j = 0; j < files.length; ++j) {
+                if (files[j].endsWith(TMP_SUFFIX)) {
+                    continue;
+                }
+                let cid:CID;
+                try {
+                    cid = parseCID(files[j]);
+                } catch (e) {
+                    // not a block
+                    continue;
+                }
+                yield cid;
+            }
+        }
+    }
+}
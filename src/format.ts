@@ -0,0 +1,46 @@
+// Node encodings
+//
+//  version 0: [leaf, count, hashes] for lists, [leaf, count, keys, hashes] for b-trees.  hashes are stored as CID strings
+//  version 1: { v: 1, leaf, count, links } for lists, { v: 1, leaf, count, keys, links } for b-trees.
+//             links are stored as native CIDs so that generic IPLD tools can walk the tree, this needs a codec with
+//             support for links like dag-cbor or dag-json
+//
+// Trees built with non-default chunker parameters (see chunk.ts) also store them in every node, as a trailing element
+// in version 0 and as chunker in version 1.  Any node can become the root after an update, so it is not enough to
+// only store them in the root.
+//
+// Trees with a reducer (see reducer.ts) store the name of the reducer and the summary of every entry, after the chunker
+// in version 0 (null if the chunker is the default) and as reducer and summaries in version 1.
+//
+// B-trees with a chunking mode other than value (see RabinBTreeOptions) store the mode in every node, after the
+// summaries in version 0 (index 7, with null for the unset fields before it) and as chunking in version 1.  Missing
+// trailing fields of version 0 nodes are left out, so nodes which don't use them keep their old encoding.
+//
+// parseNode reads both versions, so old trees stay readable while they are being migrated.
+
+import { asCID, Codec, CID, parseCID } from './multiformat';
+
+export const NODE_FORMAT_V0 = 0;
+export const NODE_FORMAT_V1 = 1;
+
+const LINK_CODECS = [ 'dag-cbor', 'dag-json' ];
+
+// the format new nodes are written in, if not specified in the tree options
+export function defaultNodeFormat (codec:Codec) {
+    if (LINK_CODECS.indexOf(codec.name) >= 0) {
+        return NODE_FORMAT_V1;
+    }
+    return NODE_FORMAT_V0;
+}
+
+// converts a stored child pointer to a CID, returns null if it is not valid
+export function parseLink (link:any) : CID|null {
+    if (typeof link === 'string') {
+        try {
+            return parseCID(link);
+        } catch (e) {
+            return null;
+        }
+    }
+    return asCID(link);
+}
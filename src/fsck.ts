@@ -0,0 +1,223 @@
+// Consistency checks for trees.  Walks every node of a tree and reports each broken invariant it finds, along with
+// the location of the broken node so that it can be repaired (e.g. by rebuilding the affected subtree from a scan).
+
+import { CID, Codec, Storage } from './multiformat';
+import { bytesEqual, sum } from './helpers';
+import { RabinNodeSource } from './cursor';
+import { ChunkerConfig, sameChunker } from './chunk';
+import { RabinReducer } from './reducer';
+
+export type RabinVerifyError = {
+    // missing:  block is not in storage
+    // invalid:  block could not be parsed as a node
+    // count:    count in parent does not match the size of the child
+    // order:    keys are out of order
+    // key:      key in parent does not match the first key of the child
+    // leaf:     leaf flag does not match the depth of the node
+    // chunk:    node boundaries differ from what the tree's chunk function produces
+    // summary:  node was built with a different reducer, or a stored summary is wrong
+    type:'missing'|'invalid'|'count'|'order'|'key'|'leaf'|'chunk'|'summary';
+
+    // the node where the problem was found
+    cid:CID;
+
+    // indices of children on the path from the root to the node
+    path:number[];
+
+    message:string;
+}
+
+type RabinVerifyItem<K, S> = {
+    cid:CID;
+    path:number[];
+    depth:number;
+
+    // true if the node is the last node on its level
+    spine:boolean;
+
+    // expected count and first key of the node, from the parent
+    count:number;
+    key?:K;
+    summary?:S;
+
+    // all keys in the node must be < bound, from the next sibling of the node or one of its ancestors
+    bound?:K;
+}
+
+/**
+ * Checks that a tree is canonical, see RabinList.verify and RabinBTree.verify
+ *
+ * @param tree The tree to check
+ * @param root The root of the tree
+ * @param compare Comparison function for keys, if the tree has keys
+ * @returns A list of all problems found in the tree, empty if the tree is ok
+ */
+export async function verifyTree<K, S = unknown> (tree:RabinNodeSource<K, S> & {
+    storage:Storage,
+    chunker:ChunkerConfig,
+    chunk(level:{ keys:K[], hashes:CID[], summaries:S[] }, start:number):number,
+
+    // summaries are compared by their encoding, or as JSON without a codec
+    codec?:Codec,
+    options?:{ reducer?:RabinReducer<K, S>, chunking?:string },
+}, root:CID, compare?:(a:K, b:K) => number) : Promise<RabinVerifyError[]> {
+    const reducer = tree.options && tree.options.reducer;
+    const chunking = (tree.options && tree.options.chunking) || 'value';
+    function sameSummary (a:S, b:S) {
+        if (!tree.codec) {
+            return JSON.stringify(a) === JSON.stringify(b);
+        }
+        return bytesEqual(tree.codec.encode(a), tree.codec.encode(b));
+    }
+
+    const errors:RabinVerifyError[] = [];
+    function report (type:RabinVerifyError['type'], item:{ cid:CID, path:number[] }, message:string) {
+        errors.push({ type, cid: item.cid, path: item.path, message });
+    }
+
+    async function load (item:{ cid:CID, path:number[] }) {
+        let block = null;
+        try {
+            block = await tree.storage.get(item.cid);
+        } catch (e) {
+            block = null;
+        }
+        if (!block) {
+            report('missing', item, 'missing block ' + item.cid.toString());
+            return null;
+        }
+        try {
+            return await tree.parseNode(item.cid);
+        } catch (e) {
+            report('invalid', item, e.message);
+            return null;
+        }
+    }
+
+    // parses a node without reporting anything, errors are reported when the node itself is checked
+    async function peek (cid?:CID) {
+        if (!cid) {
+            return null;
+        }
+        try {
+            return await tree.parseNode(cid);
+        } catch (e) {
+            return null;
+        }
+    }
+
+    const rootItem = { cid: root, path: [] };
+    const rootNode = await load(rootItem);
+    if (!rootNode) {
+        return errors;
+    }
+    if (rootNode.hashes.length === 0) {
+        if (!rootNode.leaf) {
+            report('leaf', rootItem, 'empty root must be a leaf');
+        }
+        return errors;
+    }
+    if (!rootNode.leaf && rootNode.hashes.length === 1) {
+        report('chunk', rootItem, 'root has only one child');
+    }
+
+    // all leaves should be at the same depth as the leftmost leaf
+    let height = 1;
+    for (let node = rootNode; node && !node.leaf && node.hashes.length > 0; ++height) {
+        node = await peek(node.hashes[0]);
+    }
+
+    const stack:RabinVerifyItem<K, S>[] = [{
+        cid: root,
+        path: [],
+        depth: 0,
+        spine: true,
+        count: sum(rootNode.count, 0, rootNode.count.length),
+        key: rootNode.keys ? rootNode.keys[0] : undefined,
+    }];
+    while (stack.length > 0) {
+        const item = stack.pop();
+        const node = await load(item);
+        if (!node) {
+            continue;
+        }
+        const n = node.hashes.length;
+
+        if (node.leaf !== (item.depth === height - 1)) {
+            report('leaf', item, `leaf flag is ${node.leaf} at depth ${item.depth}, but tree has height ${height}`);
+        }
+        const total = sum(node.count, 0, n);
+        if (total !== item.count) {
+            report('count', item, `expected count ${item.count}, but node contains ${total} items`);
+        }
+        if (node.leaf && node.count.some((c) => c !== 1)) {
+            report('count', item, 'leaf counts must be 1');
+        }
+
+        // check chunk boundaries
+        if (node.chunker && !sameChunker(node.chunker, tree.chunker)) {
+            report('chunk', item, 'node was built with different chunker parameters');
+        }
+        if (node.chunking !== undefined && node.chunking !== chunking) {
+            report('chunk', item, `node was built with chunking mode ${node.chunking}`);
+        }
+        if (n === 0) {
+            report('chunk', item, 'node is empty');
+        } else {
+            const hi = tree.chunk({ keys: node.keys, hashes: node.hashes, summaries: node.summaries }, 0);
+            if (hi >= 0 && hi < n) {
+                report('chunk', item, `node should end after ${hi} of ${n} entries`);
+            } else if (hi < 0 && !item.spine) {
+                report('chunk', item, `node should be merged with its next sibling`);
+            }
+        }
+
+        // check summaries
+        if (node.reducer !== (reducer && reducer.name)) {
+            report('summary', item, 'node was built with a different reducer');
+        } else if (reducer) {
+            if (item.summary !== undefined && !sameSummary(reducer.combine(node.summaries), item.summary)) {
+                report('summary', item, 'summary in parent does not match node');
+            }
+            if (node.leaf) {
+                for (let i = 0; i < n; ++i) {
+                    if (!sameSummary(await reducer.map(node.hashes[i], node.keys ? node.keys[i] : undefined), node.summaries[i])) {
+                        report('summary', item, `summary of entry ${i} does not match its value`);
+                        break;
+                    }
+                }
+            }
+        }
+
+        // check key order
+        if (compare && node.keys) {
+            if (n > 0 && compare(node.keys[0], item.key) !== 0) {
+                report('key', item, 'first key does not match parent');
+            }
+            for (let i = 0; i < n; ++i) {
+                if ((i > 0 && compare(node.keys[i - 1], node.keys[i]) >= 0) ||
+                    (item.bound !== undefined && compare(node.keys[i], item.bound) >= 0)) {
+                    report('order', item, `key ${i} is out of order`);
+                    break;
+                }
+            }
+        }
+
+        if (node.leaf) {
+            continue;
+        }
+        for (let i = n - 1; i >= 0; --i) {
+            stack.push({
+                cid: node.hashes[i],
+                path: item.path.concat(i),
+                depth: item.depth + 1,
+                spine: item.spine && i === n - 1,
+                count: node.count[i],
+                key: node.keys ? node.keys[i] : undefined,
+                summary: reducer && node.summaries ? node.summaries[i] : undefined,
+                bound: i + 1 < n && node.keys ? node.keys[i + 1] : item.bound,
+            });
+        }
+    }
+    return errors;
+}
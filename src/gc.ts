@@ -0,0 +1,70 @@
+// Mark and sweep garbage collection for block stores.
+// Every update to a tree leaves the old version of the nodes along the updated path behind, this removes every
+// block which can't be reached from a set of live roots.
+
+import { CID, Storage } from './multiformat';
+import { RabinNodeSource } from './cursor';
+
+export type RabinTreeRoot = {
+    tree:RabinNodeSource<any>;
+    root:CID;
+}
+
+/**
+ * Finds all blocks reachable from a set of roots, including the values stored in the leaves
+ * Complexity: O(n) where n = number of reachable nodes
+ * 
+ * @param roots The live trees
+ * @param live (optional) A set of CID strings to extend, subtrees which are already in the set are skipped
+ * @returns The set of CID strings of all reachable blocks
+ */
+export async function markReachable (roots:RabinTreeRoot[], live:Set<string> = new Set()) : Promise<Set<string>> {
+    for (const { tree, root } of roots) {
+        const stack = [ root ];
+        if (live.has(root.toString())) {
+            continue;
+        }
+        live.add(root.toString());
+        while (stack.length > 0) {
+            const node = await tree.parseNode(stack.pop());
+            for (const cid of node.hashes) {
+                const key = cid.toString();
+                if (live.has(key)) {
+                    continue;
+                }
+                live.add(key);
+                if (!node.leaf) {
+                    stack.push(cid);
+                }
+            }
+        }
+    }
+    return live;
+}
+
+/**
+ * Removes every block from storage which is not reachable from roots.
+ * Storage must implement the optional keys() and delete() methods.
+ * 
+ * @param storage The block store to clean up
+ * @param roots The live trees, every tree must read from storage
+ * @returns The number of blocks which were removed
+ */
+export async function collectGarbage (storage:Storage, roots:RabinTreeRoot[]) : Promise<number> {
+    if (!storage.keys || !storage.delete) {
+        throw new Error('rabin-gc: storage does not support garbage collection');
+    }
+    const live = await markReachable(roots);
+
+    // collect garbage before deleting, so we don't modify storage while iterating over it
+    const garbage:CID[] = [];
+    for await (const cid of storage.keys()) {
+        if (!live.has(cid.toString())) {
+            garbage.push(cid);
+        }
+    }
+    for (const cid of garbage) {
+        await storage.delete(cid);
+    }
+    return garbage.length;
+}
@@ -19,4 +19,32 @@ export function findPred<K> (items:K[], key:K, compare:(a:K, b:K) => number) {
         }
     }
     return pred;
-}
\ No newline at end of file
+}
+
+// concatenate byte arrays
+export function concat (chunks:Uint8Array[]) {
+    let length = 0;
+    for (const chunk of chunks) {
+        length += chunk.length;
+    }
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+}
+
+// compare byte arrays
+export function bytesEqual (a:Uint8Array, b:Uint8Array) {
+    if (a.length !== b.length) {
+        return false;
+    }
+    for (let i = 0; i < a.length; ++i) {
+        if (a[i] !== b[i]) {
+            return false;
+        }
+    }
+    return true;
+}
@@ -3,6 +3,7 @@
 //
 const _Block = (<any>require)('multiformats/block');
 const _CID = (<any>require)('multiformats/cid');
+const _varint = (<any>require)('multiformats').varint;
 
 export interface Codec {
     name:string;
@@ -61,11 +62,78 @@ export function decode<T>(spec:{
     return _Block.decode(spec);
 }
 
+// wraps bytes loaded from somewhere else as a block, without checking them against the CID
+export function createBlock<T>(spec:{
+    bytes:Uint8Array,
+    cid:CID,
+    codec:Codec,
+}) : Block<T> {
+    return _Block.createUnsafe(spec);
+}
+
 export function parseCID (hash:string) : CID {
     return _CID.parse(hash);
 }
 
+// decodes a CID from the start of bytes, returns [cid, remaining bytes]
+export function decodeFirstCID (bytes:Uint8Array) : [CID, Uint8Array] {
+    return _CID.decodeFirst(bytes);
+}
+
+export function encodeVarint (n:number) : Uint8Array {
+    const bytes = new Uint8Array(_varint.encodingLength(n));
+    _varint.encodeTo(n, bytes, 0);
+    return bytes;
+}
+
+// returns [value, number of bytes read]
+export function decodeVarint (bytes:Uint8Array) : [number, number] {
+    return _varint.decode(bytes);
+}
+
+// returns value as a CID if it is one, null otherwise
+export function asCID (value:any) : CID|null {
+    return _CID.asCID(value);
+}
+
 export interface Storage {
     put<T>(block:Block<T>):Promise<void>;
     get<T>(cid:CID):Promise<Block<T>>;
+
+    // optional, lets high latency storage serve many blocks in one round trip
+    getMany?<T>(cids:CID[]):Promise<Block<T>[]>;
+    putMany?<T>(blocks:Block<T>[]):Promise<void>;
+
+    // optional, needed for garbage collection
+    delete?(cid:CID):Promise<void>;
+    keys?():AsyncIterable<CID>;
+}
+
+// reads blocks in a single batch if storage supports it, otherwise one at a time in parallel
+export function getMany<T> (storage:Storage, cids:CID[]) : Promise<Block<T>[]> {
+    if (storage.getMany) {
+        return storage.getMany<T>(cids);
+    }
+    return Promise.all(cids.map((cid) => storage.get<T>(cid)));
+}
+
+// writes blocks in a single batch if storage supports it, otherwise one at a time in parallel
+export async function putMany<T> (storage:Storage, blocks:Block<T>[]) {
+    if (storage.putMany) {
+        await storage.putMany(blocks);
+    } else {
+        await Promise.all(blocks.map((block) => storage.put(block)));
+    }
+}
+
+// thrown by storage implementations when a block does not exist
+export class BlockNotFoundError extends Error {
+    public code = 'ERR_BLOCK_NOT_FOUND';
+
+    constructor (public cid:CID) {
+        super('block not found ' + cid.toString());
+        this.name = 'BlockNotFoundError';
+        // keeps instanceof working when compiled to es5
+        Object.setPrototypeOf(this, BlockNotFoundError.prototype);
+    }
 }
@@ -0,0 +1,390 @@
+// Storage which appends blocks to large segment files, for trees with too many nodes to keep one file per block.
+//
+// A segment is a sequence of records varint(length) + CID + block bytes, the same layout as the blocks of a CAR archive.
+// The location of every block is kept in an in-memory index, which is saved to <dir>/index whenever a segment fills
+// up, on flush and after compaction.  The saved index remembers how much of each segment it covers, so on open only the
+// tail of each segment written since the last save is scanned.  A record cut short by a crash is truncated away.
+//
+// Records are never modified.  delete only drops a block from the index, the space is reclaimed by compact which copies
+// every block reachable from a set of live roots, or put after the compaction started, into new segments and removes the
+// old ones.  The new index only replaces the old one once it is saved, so a failed compaction leaves the store as it was.
+// Writes are queued behind a running compaction and reads wait for it, since it replaces the index and the segments.
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Block, BlockNotFoundError, CID, decodeFirstCID, decodeVarint, encodeVarint, parseCID, Storage } from './multiformat';
+import { decodeStoredBlock, FileStorageOptions, replaceFile } from './file-storage';
+import { markReachable, RabinTreeRoot } from './gc';
+import { concat } from './helpers';
+
+export type PackStorageOptions = FileStorageOptions & {
+    // a new segment is started before a segment would grow past this many bytes
+    maxSegmentBytes?:number;
+}
+
+type PackLocation = {
+    segment:number;
+
+    // position and length of the block bytes in the segment
+    offset:number;
+    length:number;
+}
+
+const DEFAULT_MAX_SEGMENT_BYTES = 1 << 26;
+const INDEX_VERSION = 1;
+const INDEX_FILE = 'index';
+const SEGMENT_SUFFIX = '.pack';
+
+function segmentName (segment:number) {
+    return ('00000000' + segment).slice(-8) + SEGMENT_SUFFIX;
+}
+
+export class PackStorage implements Storage {
+    private _index = new Map<string, PackLocation>();
+
+    // blocks which are queued to be written
+    private _pending = new Map<string, Block<any>>();
+
+    // size of every segment, the last one is the one we append to
+    private _segments = new Map<number, number>();
+    private _active = 0;
+    private _handles = new Map<number, Promise<fs.FileHandle>>();
+
+    // writes are done one at a time in order, so a segment is always a sequence of complete records followed by at
+    // most one partial record
+    private _queue:Promise<any> = Promise.resolve();
+
+    // set while a compaction is queued or running, reads wait for it
+    private _compaction:Promise<number> = null;
+
+    // reads in progress, a compaction lets them finish before it replaces the segments
+    private _reads = new Set<Promise<Uint8Array>>();
+
+    // keys put since each pending compaction marked its live blocks, they are kept even if no root reaches them
+    private _putSince = new Set<Set<string>>();
+
+    private constructor (
+        public dir:string,
+        public options:PackStorageOptions,
+    ) {}
+
+    /**
+     * Opens a pack storage, creating the directory if needed and recovering blocks written after the index was saved
+     *
+     * @param dir The directory which holds the segments and index
+     * @param options Codecs and hashers of the stored blocks, if verify is set the hashes of recovered blocks are checked
+     * @returns The storage
+     */
+    public static async open (dir:string, options:PackStorageOptions) : Promise<PackStorage> {
+        const storage = new PackStorage(dir, options);
+        await fs.mkdir(dir, { recursive: true });
+        await storage._load();
+        return storage;
+    }
+
+    private _path (segment:number) {
+        return path.join(this.dir, segmentName(segment));
+    }
+
+    private _handle (segment:number) {
+        let handle = this._handles.get(segment);
+        if (!handle) {
+            handle = fs.open(this._path(segment), 'r+').catch((e) => {
+                if (e.code === 'ENOENT') {
+                    return fs.open(this._path(segment), 'w+');
+                }
+                throw e;
+            });
+            this._handles.set(segment, handle);
+        }
+        return handle;
+    }
+
+    private _enqueue<T> (task:() => Promise<T>) : Promise<T> {
+        const result = this._queue.then(task);
+        this._queue = result.catch(() => {});
+        return result;
+    }
+
+    private async _load () {
+        // segments covered by the saved index and how many bytes of each
+        const covered = new Map<number, number>();
+        let indexBytes:Uint8Array = null;
+        try {
+            indexBytes = new Uint8Array(await fs.readFile(path.join(this.dir, INDEX_FILE)));
+        } catch (e) {
+            if (e.code !== 'ENOENT') {
+                throw e;
+            }
+        }
+        if (indexBytes) {
+            let ptr = 0;
+            const varint = () => {
+                const [ value, length ] = decodeVarint(indexBytes.subarray(ptr));
+                ptr += length;
+                return value;
+            };
+            if (varint() !== INDEX_VERSION) {
+                throw new Error('rabin-pack: unsupported index version');
+            }
+            for (let n = varint(); n > 0; --n) {
+                const segment = varint();
+                covered.set(segment, varint());
+            }
+            while (ptr < indexBytes.length) {
+                const [ cid, rest ] = decodeFirstCID(indexBytes.subarray(ptr));
+                ptr = indexBytes.length - rest.length;
+                this._index.set(cid.toString(), {
+                    segment: varint(),
+                    offset: varint(),
+                    length: varint(),
+                });
+            }
+        }
+
+        const segments = (await fs.readdir(this.dir))
+            .filter((f) => f.endsWith(SEGMENT_SUFFIX))
+            .map((f) => parseInt(f, 10))
+            .sort((a, b) => a - b);
+        const oldest = covered.size > 0 ? Math.min(...Array.from(covered.keys())) : -1;
+        for (const segment of segments) {
+            if (segment < oldest && !covered.has(segment)) {
+                // left over from a compaction which crashed before cleaning up
+                await fs.unlink(this._path(segment));
+                continue;
+            }
+            this._segments.set(segment, await this._scan(segment, covered.get(segment) || 0));
+            this._active = segment;
+        }
+        if (!this._segments.has(this._active)) {
+            this._segments.set(this._active, 0);
+        }
+    }
+
+    // indexes the records of a segment after start, truncates the segment after the last complete record
+    private async _scan (segment:number, start:number) {
+        const handle = await this._handle(segment);
+        const size = (await handle.stat()).size;
+        if (size <= start) {
+            return start;
+        }
+        const bytes = new Uint8Array(size - start);
+        await handle.read(bytes, 0, bytes.length, start);
+
+        let ptr = 0;
+        while (ptr < bytes.length) {
+            try {
+                const [ length, n ] = decodeVarint(bytes.subarray(ptr));
+                if (ptr + n + length > bytes.length) {
+                    break;
+                }
+                const record = bytes.subarray(ptr + n, ptr + n + length);
+                const [ cid, data ] = decodeFirstCID(record);
+                await decodeStoredBlock(cid, data, this.options);
+                this._index.set(cid.toString(), {
+                    segment,
+                    offset: start + ptr + n + length - data.length,
+                    length: data.length,
+                });
+                ptr += n + length;
+            } catch (e) {
+                break;
+            }
+        }
+        if (ptr < bytes.length) {
+            await handle.truncate(start + ptr);
+        }
+        return start + ptr;
+    }
+
+    private async _append (cid:CID, bytes:Uint8Array, index = this._index) {
+        const maxBytes = this.options.maxSegmentBytes || DEFAULT_MAX_SEGMENT_BYTES;
+        const record = concat([ encodeVarint(cid.bytes.length + bytes.length), cid.bytes, bytes ]);
+        let size = this._segments.get(this._active);
+        if (size > 0 && size + record.length > maxBytes) {
+            if (index === this._index) {
+                await this._saveIndex();
+            }
+            this._active += 1;
+            this._segments.set(this._active, 0);
+            size = 0;
+        }
+        const segment = this._active;
+        const handle = await this._handle(segment);
+        await handle.write(record, 0, record.length, size);
+        this._segments.set(segment, size + record.length);
+        index.set(cid.toString(), {
+            segment,
+            offset: size + record.length - bytes.length,
+            length: bytes.length,
+        });
+    }
+
+    private async _saveIndex (index = this._index) {
+        const segments = Array.from(this._segments.keys());
+        const chunks = [ encodeVarint(INDEX_VERSION), encodeVarint(segments.length) ];
+        for (const segment of segments) {
+            chunks.push(encodeVarint(segment), encodeVarint(this._segments.get(segment)));
+        }
+        index.forEach((loc, key) => {
+            chunks.push(parseCID(key).bytes, encodeVarint(loc.segment), encodeVarint(loc.offset), encodeVarint(loc.length));
+        });
+        // the records the index points to must be on disk before the index is
+        for (const segment of segments) {
+            await (await this._handle(segment)).sync();
+        }
+        const file = path.join(this.dir, INDEX_FILE);
+        await replaceFile(file, file + '.tmp', concat(chunks));
+    }
+
+    private async _read (loc:PackLocation) {
+        const bytes = new Uint8Array(loc.length);
+        await (await this._handle(loc.segment)).read(bytes, 0, loc.length, loc.offset);
+        return bytes;
+    }
+
+    public async put<T> (block:Block<T>) {
+        const key = block.cid.toString();
+        this._putSince.forEach((keys) => keys.add(key));
+        if (this._index.has(key) || this._pending.has(key)) {
+            return;
+        }
+        this._pending.set(key, block);
+        try {
+            await this._enqueue(() => this._append(block.cid, block.bytes));
+        } finally {
+            this._pending.delete(key);
+        }
+    }
+
+    public async get<T> (cid:CID) : Promise<Block<T>> {
+        while (this._compaction) {
+            await this._compaction.catch(() => {});
+        }
+        const key = cid.toString();
+        const pending = this._pending.get(key);
+        if (pending) {
+            return pending;
+        }
+        const loc = this._index.get(key);
+        if (!loc) {
+            throw new BlockNotFoundError(cid);
+        }
+        const read = this._read(loc);
+        this._reads.add(read);
+        try {
+            return decodeStoredBlock<T>(cid, await read, this.options);
+        } finally {
+            this._reads.delete(read);
+        }
+    }
+
+    public async delete (cid:CID) {
+        this._index.delete(cid.toString());
+    }
+
+    public async* keys () {
+        const keys = Array.from(this._index.keys());
+        for (let i = 0; i < keys.length; ++i) {
+            yield parseCID(keys[i]);
+        }
+    }
+
+    // number of blocks in the index
+    public get size () {
+        return this._index.size;
+    }
+
+    // waits for queued writes and saves the index
+    public async flush () {
+        await this._enqueue(() => this._saveIndex());
+    }
+
+    public async close () {
+        await this.flush();
+        const handles = Array.from(this._handles.values());
+        this._handles.clear();
+        for (const handle of handles) {
+            await (await handle).close();
+        }
+    }
+
+    /**
+     * Copies every block reachable from roots into new segments and deletes all the old segments
+     *
+     * @param roots The live trees, every tree must read from this storage
+     * @returns The number of blocks which were removed
+     */
+    public async compact (roots:RabinTreeRoot[]) : Promise<number> {
+        const putSince = new Set<string>();
+        this._putSince.add(putSince);
+        let live:Set<string>;
+        try {
+            await this._queue;
+            live = await markReachable(roots);
+        } catch (e) {
+            this._putSince.delete(putSince);
+            throw e;
+        }
+
+        const compaction = this._enqueue(async () => {
+            this._putSince.delete(putSince);
+            await Promise.all(Array.from(this._reads).map((read) => read.catch(() => {})));
+            const oldActive = this._active;
+            const oldSegments = this._segments;
+            this._active = Math.max(...Array.from(oldSegments.keys())) + 1;
+            this._segments = new Map([ [ this._active, 0 ] ]);
+
+            // the old index stays in place until the new one is saved
+            const index = new Map<string, PackLocation>();
+            let removed = 0;
+            try {
+                const keys = Array.from(this._index.keys());
+                for (const key of keys) {
+                    if (!live.has(key) && !putSince.has(key)) {
+                        removed += 1;
+                        continue;
+                    }
+                    await this._append(parseCID(key), await this._read(this._index.get(key)), index);
+                }
+                await this._saveIndex(index);
+            } catch (e) {
+                const newSegments = Array.from(this._segments.keys());
+                this._active = oldActive;
+                this._segments = oldSegments;
+                await this._removeSegments(newSegments);
+                throw e;
+            }
+            this._index = index;
+
+            // once the new index is saved the old segments are no longer needed, if we crash before deleting them
+            // they are removed on open
+            await this._removeSegments(Array.from(oldSegments.keys()));
+            return removed;
+        });
+        this._compaction = compaction;
+        try {
+            return await compaction;
+        } finally {
+            if (this._compaction === compaction) {
+                this._compaction = null;
+            }
+        }
+    }
+
+    // closes and deletes segment files
+    private async _removeSegments (segments:number[]) {
+        for (const segment of segments) {
+            const handle = this._handles.get(segment);
+            if (handle) {
+                this._handles.delete(segment);
+                await (await handle).close();
+            }
+            await fs.unlink(this._path(segment)).catch((e) => {
+                if (e.code !== 'ENOENT') {
+                    throw e;
+                }
+            });
+        }
+    }
+}
@@ -0,0 +1,57 @@
+// Loads nodes ahead of a scan.  Without this a scan waits for one node at a time, which on high latency storage turns
+// into a long chain of round trips.  Whenever the scan descends into a child, the next few siblings of that child are
+// requested in one batch, so by the time the scan reaches them they are usually already loaded.
+
+import { CID } from './multiformat';
+
+export class NodePrefetcher<N> {
+    private _loading = new Map<string, Promise<N>>();
+
+    constructor (
+        public source:{
+            parseNode(cid:CID):Promise<N>;
+            parseNodes(cids:CID[]):Promise<N[]>;
+        },
+        public depth:number,
+    ) {}
+
+    /**
+     * Loads a node, using the prefetched copy if there is one
+     *
+     * @param cid The node to load
+     * @returns The parsed node
+     */
+    public get (cid:CID) : Promise<N> {
+        const key = cid.toString();
+        const loading = this._loading.get(key);
+        if (loading) {
+            this._loading.delete(key);
+            return loading;
+        }
+        return this.source.parseNode(cid);
+    }
+
+    /**
+     * Starts loading up to depth nodes from hashes, beginning at start.  Does nothing if the first of them is already
+     * loading, so nodes are requested in batches of depth rather than one at a time as the scan moves along.
+     *
+     * @param hashes The children of an internal node
+     * @param start The index of the first child to load
+     * @param step 1 if the scan moves forwards, -1 if it moves backwards
+     */
+    public ahead (hashes:CID[], start:number, step:number = 1) {
+        if (this.depth <= 0 || start < 0 || start >= hashes.length || this._loading.has(hashes[start].toString())) {
+            return;
+        }
+        const batch = step > 0 ?
+            hashes.slice(start, start + this.depth) :
+            hashes.slice(Math.max(0, start - this.depth + 1), start + 1).reverse();
+        const nodes = this.source.parseNodes(batch);
+        batch.forEach((cid, i) => {
+            const node = nodes.then((n) => n[i]);
+            // errors are reported when the node is used, nodes which are never used shouldn't crash the process
+            node.catch(() => {});
+            this._loading.set(cid.toString(), node);
+        });
+    }
+}
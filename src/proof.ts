@@ -0,0 +1,67 @@
+// Merkle proofs are just the list of blocks which a query reads.  To produce a proof we run the query against a
+// storage which records every block, and to check a proof we run the same query against a storage which only
+// contains the blocks from the proof.  Since blocks are content addressed, a proof can't contain forged blocks
+// as long as the verifier trusts the root CID.
+
+import { Block, CID, Codec, decode, Hasher, Storage } from './multiformat';
+
+// encoded bytes of every block needed to answer a query
+export type RabinProof = Uint8Array[];
+
+// records every block which is read from storage
+export class RecordingStorage implements Storage {
+    private _blocks = new Map<string, Block<any>>();
+
+    constructor (
+        public storage:Storage,
+    ) {}
+
+    public async put<T> (block:Block<T>) {
+        await this.storage.put(block);
+    }
+
+    public async get<T> (cid:CID) : Promise<Block<T>> {
+        const block = await this.storage.get<T>(cid);
+        if (block) {
+            this._blocks.set(cid.toString(), block);
+        }
+        return block;
+    }
+
+    // all blocks read so far, in the order they were first read
+    public proof () : RabinProof {
+        return Array.from(this._blocks.values()).map((block) => block.bytes);
+    }
+}
+
+// read only storage containing just the blocks of a proof
+export class ProofStorage implements Storage {
+    private _blocks = new Map<string, Block<any>>();
+
+    constructor (
+        public hasher:Hasher,
+        public codec:Codec,
+    ) {}
+
+    // decodes and adds a block, its CID is computed from the bytes so it can't be forged
+    public async add (bytes:Uint8Array) {
+        const block = await decode<any>({
+            bytes,
+            hasher: this.hasher,
+            codec: this.codec,
+        });
+        this._blocks.set(block.cid.toString(), block);
+    }
+
+    public async put<T> (block:Block<T>) : Promise<void> {
+        throw new Error('rabin-proof: proof storage is read only');
+    }
+
+    public async get<T> (cid:CID) : Promise<Block<T>> {
+        const block = this._blocks.get(cid.toString());
+        if (!block) {
+            throw new Error('rabin-proof: block ' + cid.toString() + ' missing from proof');
+        }
+        return block;
+    }
+}
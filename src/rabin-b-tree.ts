@@ -1,85 +1,367 @@
-import { Hasher, Codec, Storage, CID, encode, Block, parseCID } from './multiformat';
-import { nextChunk } from './chunk';
+import { Hasher, Codec, Storage, CID, encode, Block, getMany, putMany } from './multiformat';
+import { ChunkCache, ChunkEntry, ChunkerConfig, DEFAULT_CHUNKER, ENTRY_OVERHEAD_BYTES, gear, hashBytes, isDefaultChunker, nextChunk, resolveChunker, sameChunker } from './chunk';
 import { findPred, sum } from './helpers';
+import { RabinCursor, RabinNodeSource, RabinPiece } from './cursor';
+import { RabinBuilder } from './builder';
+import { NodeCache } from './cache';
+import { NodePrefetcher } from './prefetch';
+import { defaultNodeFormat, NODE_FORMAT_V1, parseLink } from './format';
+import { ProofStorage, RabinProof, RecordingStorage } from './proof';
+import { RabinVerifyError, verifyTree } from './fsck';
+import { RabinReducer, reduceRange } from './reducer';
 import { kMaxLength } from 'buffer';
 
-type RabinBTreeNode<K> = {
+type RabinBTreeNode<K, S> = {
     leaf:boolean;
     count:number[];
     keys:K[];
     hashes:CID[];
+    chunker:ChunkerConfig;
+    chunking:RabinBTreeChunking;
+    reducer?:string;
+    summaries:S[];
 }
 
-type RabinBTreeLevel<K> = {
+type RabinBTreeLevel<K, S> = {
     start:number;
     end:number;
     count:number[];
     keys:K[];
     hashes:CID[];
+    summaries:S[];
 }
 
-// range search options
+export type RabinBTreeChunking = 'value'|'key'|'key+value';
+
+const CHUNKING_MODES = [ 'value', 'key', 'key+value' ];
+
+export type RabinBTreeOptions<K = any, S = unknown> = {
+    // decoded nodes are kept here, can be shared with other trees
+    cache?:NodeCache;
+
+    // encoding of new nodes, see format.ts.  defaults to links if the codec supports them
+    format?:number;
+
+    // chunking parameters, missing ones are taken from DEFAULT_CHUNKER.  larger nodes suit small entries
+    chunker?:Partial<ChunkerConfig>;
+
+    // number of sibling subtrees scan loads ahead of the current position on each level, 0 to disable
+    prefetch?:number;
+
+    // what node boundaries are computed from, recorded in every node:
+    //  value:      CIDs of values/children (default)
+    //  key:        keys only, so the shape of the tree doesn't change when values are updated
+    //  key+value:  both keys and CIDs, so that runs of repeated values still get split
+    chunking?:RabinBTreeChunking;
+
+    // stores a summary of every subtree next to its count, see reducer.ts
+    reducer?:RabinReducer<K, S>;
+}
+
+// range search options, index and key bounds can be combined
 export type RabinBTreeRangeSpec<K> = {
     // start index
     lo?:number;
 
-    // alternatively, start of range
+    // alternatively, start of range (lt < key or le <= key)
     lt?:K;
     le?:K;
 
-    // end index
+    // end index (exclusive)
     hi?:number;
 
-    // alternatively, end of range
+    // alternatively, end of range (gt > key or ge >= key)
     gt?:K;
     ge?:K;
 
     // limit
     limit?:number;
+
+    // if set, entries are yielded from the end of the range to the start, and limit counts from the end
+    reverse?:boolean;
 }
 
-export class RabinBTree<K> {
+// a single difference between two trees, oldValue/newValue are null if the key was added/removed
+export type RabinBTreeDiff<K> = {
+    key:K;
+    oldValue:CID|null;
+    newValue:CID|null;
+}
+
+// a batched update, see RabinBTree.apply
+export type RabinBTreeOp<K> = {
+    type:'put';
+    key:K;
+    value:CID;
+} | {
+    type:'del';
+    key:K;
+}
+
+// decides the value of a key which was changed on both sides of a merge, null removes the key
+export type RabinBTreeMergeResolver<K> = (key:K, base:CID|null, ours:CID|null, theirs:CID|null) => CID|null|Promise<CID|null>;
+
+// picks the value of a key which is in both trees of a union or intersection, null drops the key
+export type RabinBTreeCombiner<K> = (key:K, a:CID, b:CID) => CID|null|Promise<CID|null>;
+
+function sameValue (a:CID|null, b:CID|null) {
+    if (!a || !b) {
+        return a === b;
+    }
+    return a.equals(b);
+}
+
+export class RabinBTree<K, S = unknown> {
     constructor (
         public hasher:Hasher,
         public codec:Codec,
         public storage:Storage,
         public compare:(a:K, b:K) => number,
-    ) {}
+        public options:RabinBTreeOptions<K, S> = {},
+    ) {
+        this.chunker = resolveChunker(options.chunker);
+    }
+
+    // chunking parameters of new nodes
+    public chunker:ChunkerConfig;
+
+    private _chunkCache = new ChunkCache();
+
+    // source for the cursors of updates, which copy entries of the nodes they read into the new tree
+    private _reusedSource:RabinNodeSource<K, S> = { parseNode: (cid) => this._parseReused(cid) };
+
+    private _chunking () : RabinBTreeChunking {
+        return this.options.chunking || 'value';
+    }
 
-    public async serializeNode (leaf:boolean, counts:number[], keys:K[], hashes:CID[]) {
-        const block = await encode({
-            value: [
+    private _format () {
+        return 'format' in this.options ? this.options.format : defaultNodeFormat(this.codec);
+    }
+
+    private _encodeNode (leaf:boolean, counts:number[], keys:K[], hashes:CID[], summaries:S[]) : Promise<Block<any>> {
+        const reducer = this.options.reducer;
+        let value:any;
+        if (this._format() === NODE_FORMAT_V1) {
+            value = {
+                v: NODE_FORMAT_V1,
+                leaf,
+                count: counts.slice(),
+                keys: keys.slice(),
+                links: hashes.slice(),
+            };
+            if (!isDefaultChunker(this.chunker)) {
+                value.chunker = this.chunker;
+            }
+            if (this._chunking() !== 'value') {
+                value.chunking = this._chunking();
+            }
+            if (reducer) {
+                value.reducer = reducer.name;
+                value.summaries = summaries.slice();
+            }
+        } else {
+            value = [
                 leaf,
                 counts.slice(),
                 keys.slice(),
-                hashes.map((h) => h.toString())
-            ],
+                hashes.map((h) => h.toString()),
+                isDefaultChunker(this.chunker) ? null : this.chunker,
+                reducer ? reducer.name : null,
+                reducer ? summaries.slice() : null,
+                this._chunking() !== 'value' ? this._chunking() : null,
+            ];
+            // optional fields are only written up to the last one that is set, so old nodes keep their encoding
+            while (value.length > 4 && value[value.length - 1] === null) {
+                value.pop();
+            }
+        }
+        return encode({
+            value,
             hasher: this.hasher,
             codec: this.codec,
         });
+    }
+
+    public async serializeNode (leaf:boolean, counts:number[], keys:K[], hashes:CID[], summaries?:S[]) {
+        const block = await this._encodeNode(leaf, counts, keys, hashes, summaries || await this._summarize(leaf, keys, hashes));
         await this.storage.put(block);
         return block.cid;
     }
 
-    public async parseNode (cid:CID) : Promise<RabinBTreeNode<K>> {
-        const block:Block<any> = await this.storage.get(cid);
-        const isLeaf = !!block.value[0];
-        const count = block.value[1];
-        const keys = block.value[2];
-        const hashes = block.value[3];
+    public async parseNode (cid:CID) : Promise<RabinBTreeNode<K, S>> {
+        return (await this.parseNodes([ cid ]))[0];
+    }
+
+    /**
+     * Loads several nodes at once, nodes which are not cached are read from storage in a single batch
+     * 
+     * @param cids The nodes to load
+     * @returns The parsed nodes, in the same order as cids
+     */
+    public async parseNodes (cids:CID[]) : Promise<RabinBTreeNode<K, S>[]> {
+        const cache = this.options.cache;
+        const nodes = cids.map((cid) => cache ? cache.get<RabinBTreeNode<K, S>>('btree:' + cid.toString()) : undefined);
+        const missing = cids.filter((_, i) => !nodes[i]);
+        if (missing.length === 0) {
+            return nodes;
+        }
+        const blocks = await getMany<any>(this.storage, missing);
+        for (let i = 0, j = 0; i < cids.length; ++i) {
+            if (!nodes[i]) {
+                nodes[i] = this._decodeNode(cids[i], blocks[j++]);
+            }
+        }
+        return nodes;
+    }
+
+    private _decodeNode (cid:CID, block:Block<any>) : RabinBTreeNode<K, S> {
+        const cache = this.options.cache;
+        const value = block.value;
+        let isLeaf:boolean, count:any, keys:any, hashes:any, chunker:any, chunking:any, reducer:any, summaries:any;
+        if (Array.isArray(value)) {
+            isLeaf = !!value[0];
+            count = value[1];
+            keys = value[2];
+            hashes = value[3];
+            chunker = value[4];
+            reducer = value[5] === null ? undefined : value[5];
+            summaries = value[6];
+            chunking = value[7];
+        } else if (value && value.v === NODE_FORMAT_V1) {
+            isLeaf = !!value.leaf;
+            count = value.count;
+            keys = value.keys;
+            hashes = value.links;
+            chunker = value.chunker;
+            chunking = value.chunking;
+            reducer = value.reducer;
+            summaries = value.summaries;
+        }
+        if (chunking === undefined || chunking === null) {
+            chunking = 'value';
+        }
         if (!Array.isArray(count) ||
             !Array.isArray(keys) ||
             !Array.isArray(hashes) ||
             count.length !== keys.length ||
-            count.length !== hashes.length) {
+            count.length !== hashes.length ||
+            CHUNKING_MODES.indexOf(chunking) < 0 ||
+            (reducer !== undefined && (typeof reducer !== 'string' || !Array.isArray(summaries) || summaries.length !== hashes.length))) {
             throw new Error('invalid RabinBTree node ' + cid.toString());
         }
-        return {
+        const links = hashes.map(parseLink);
+        if (links.indexOf(null) >= 0) {
+            throw new Error('invalid RabinBTree node ' + cid.toString());
+        }
+        try {
+            chunker = chunker === undefined || chunker === null ? DEFAULT_CHUNKER : resolveChunker(chunker);
+        } catch (e) {
+            throw new Error('invalid RabinBTree node ' + cid.toString());
+        }
+        const node = {
             leaf: isLeaf,
             count: count.map((c) => c >>> 0),
             keys,
-            hashes: hashes.map(parseCID),
+            hashes: links,
+            chunker,
+            chunking,
+            reducer,
+            summaries: reducer === undefined ? hashes.map(() => undefined) : summaries,
         };
+        if (cache) {
+            cache.set('btree:' + cid.toString(), node, block.bytes.length);
+        }
+        return node;
+    }
+
+    /**
+     * Finds the end of the node which starts at start in a level of the tree
+     * 
+     * @param level The keys and hashes of a level of the tree
+     * @param start The index of the first entry of the node
+     * @returns The index after the last entry of the node, or -1 if level ends before the node does
+     */
+    public chunk (level:{ keys:K[], hashes:CID[], summaries?:S[] }, start:number) : number {
+        if (this._chunking() === 'value' && this.chunker.maxBytes === 0) {
+            return nextChunk(level.hashes, start, gear, this.chunker);
+        }
+        const entry = (i:number) => this._chunkCache.get(level, i, [ level.keys[i], level.hashes[i], level.summaries && level.summaries[i] ], () => this._chunkEntry(level, i));
+        return nextChunk(level.hashes, start, (_, i) => entry(i).hash, this.chunker, (_, i) => entry(i).size);
+    }
+
+    // hash of an entry according to the chunking mode, and its encoded size if nodes have a byte limit
+    private _chunkEntry (level:{ keys:K[], hashes:CID[], summaries?:S[] }, i:number) : ChunkEntry {
+        const chunking = this._chunking();
+        const key = chunking !== 'value' || this.chunker.maxBytes > 0 ? this.codec.encode(level.keys[i]) : null;
+        let hash = gear(level.hashes[i]);
+        if (chunking === 'key') {
+            hash = hashBytes(key);
+        } else if (chunking === 'key+value') {
+            hash = hashBytes(key) ^ hash;
+        }
+        let size = 0;
+        if (this.chunker.maxBytes > 0) {
+            const link = this._format() === NODE_FORMAT_V1 ? level.hashes[i] : level.hashes[i].toString();
+            size = key.length + this.codec.encode(link).length + ENTRY_OVERHEAD_BYTES;
+            if (this.options.reducer && level.summaries) {
+                size += this.codec.encode(level.summaries[i]).length;
+            }
+        }
+        return { hash, size };
+    }
+
+    /**
+     * Reads the chunking parameters a tree was built with
+     * 
+     * @param root The root of the tree
+     * @returns The parameters recorded in the root, or the defaults if there are none
+     */
+    public async chunkerOf (root:CID) : Promise<ChunkerConfig> {
+        return (await this.parseNode(root)).chunker;
+    }
+
+    // summaries of the entries of a node, from the values of a leaf or the stored summaries of the children
+    private async _summarize (leaf:boolean, keys:K[], hashes:CID[]) : Promise<S[]> {
+        const reducer = this.options.reducer;
+        if (!reducer) {
+            return hashes.map(() => undefined);
+        } else if (leaf) {
+            return Promise.all(hashes.map((hash, i) => reducer.map(hash, keys[i])));
+        }
+        const nodes = await this.parseNodes(hashes);
+        nodes.forEach((node, i) => this._checkReducer(hashes[i], node));
+        return nodes.map((node) => reducer.combine(node.summaries));
+    }
+
+    // nodes reused in a new tree must carry summaries from the reducer of this tree, or none if it has no reducer
+    private _checkReducer (cid:CID, node:RabinBTreeNode<K, S>) {
+        const reducer = this.options.reducer;
+        if (node.reducer !== (reducer ? reducer.name : undefined)) {
+            throw new Error('rabin-b-tree: node ' + cid.toString() + ' was built with a different reducer');
+        }
+    }
+
+    // parses a node whose entries are copied into a new tree, it must have been chunked the same way as this tree
+    private async _parseReused (cid:CID) : Promise<RabinBTreeNode<K, S>> {
+        const node = await this.parseNode(cid);
+        if (!sameChunker(node.chunker, this.chunker)) {
+            throw new Error('rabin-b-tree: node ' + cid.toString() + ' was built with different chunker parameters');
+        }
+        if (node.chunking !== this._chunking()) {
+            throw new Error('rabin-b-tree: node ' + cid.toString() + ' was built with chunking mode ' + node.chunking);
+        }
+        this._checkReducer(cid, node);
+        return node;
+    }
+
+    private async _summary (key:K, value:CID) : Promise<S> {
+        const reducer = this.options.reducer;
+        return reducer ? reducer.map(value, key) : undefined;
+    }
+
+    private _combineSummaries (summaries:S[]) : S {
+        const reducer = this.options.reducer;
+        return reducer ? reducer.combine(summaries) : undefined;
     }
 
     /**
@@ -99,33 +381,72 @@ export class RabinBTree<K> {
         prevKeys.sort(this.compare);
         let prevCount = prevKeys.map(() => 1);
         let prevHashes = prevKeys.map((k) => data.get(k));
+        let prevSummaries = await this._summarize(true, prevKeys, prevHashes);
         let leaf = true;
 
         do {
             const nextCount:number[] = [];
             const nextKeys:K[] = [];
-            const nextHashes:Promise<CID>[] = [];
+            const nextSummaries:S[] = [];
+            const nextBlocks:Promise<Block<any>>[] = [];
 
             for(let lo = 0; lo < prevHashes.length; ) {
-                let hi = nextChunk(prevHashes, lo);
+                let hi = this.chunk({ keys: prevKeys, hashes: prevHashes, summaries: prevSummaries }, lo);
                 if (hi < 0) {
                     hi = prevHashes.length;
                 }
                 nextCount.push(sum(prevCount, lo, hi));
                 nextKeys.push(prevKeys[lo]);
-                nextHashes.push(this.serializeNode(leaf, prevCount.slice(lo, hi), prevKeys.slice(lo, hi), prevHashes.slice(lo, hi)));
+                nextSummaries.push(this._combineSummaries(prevSummaries.slice(lo, hi)));
+                nextBlocks.push(this._encodeNode(
+                    leaf,
+                    prevCount.slice(lo, hi),
+                    prevKeys.slice(lo, hi),
+                    prevHashes.slice(lo, hi),
+                    prevSummaries.slice(lo, hi)));
                 lo = hi;
             }
 
+            // each level is written in one batch
+            const blocks = await Promise.all(nextBlocks);
+            await putMany(this.storage, blocks);
             prevCount = nextCount;
             prevKeys = nextKeys;
-            prevHashes = await Promise.all(nextHashes);
+            prevHashes = blocks.map((b) => b.cid);
+            prevSummaries = nextSummaries;
             leaf = false;
         } while (prevHashes.length !== 1)
 
         return prevHashes[0];
     }
 
+    /**
+     * Builds a tree from a stream of (key, value) pairs, producing the same tree as create.
+     * Nodes are written as soon as they are complete, so the input does not need to fit in memory.
+     * Time complexity: O(n log(n)), space complexity: O(log(n))
+     * 
+     * @param entries A sequence of (key, value) pairs, sorted by key with no duplicates
+     * @returns The CID of the root of the new tree
+     */
+    public async build (entries:AsyncIterable<{ key:K, value:CID }>|Iterable<{ key:K, value:CID }>) : Promise<CID> {
+        const builder = this._builder();
+        let first = true;
+        let prev:K;
+        for await (const { key, value } of entries) {
+            if (!first && this.compare(prev, key) >= 0) {
+                throw new Error('rabin-b-tree: keys must be sorted and unique');
+            }
+            await builder.push(0, { count: 1, key, hash: value, summary: await this._summary(key, value) });
+            first = false;
+            prev = key;
+        }
+        const result = await builder.finish();
+        if (!result) {
+            return await this.serializeNode(true, [], [], []);
+        }
+        return result;
+    }
+
     /**
      * Returns the element at index
      * Time complexity: O(log_B n)
@@ -189,6 +510,35 @@ export class RabinBTree<K> {
         }
     }
 
+    /**
+     * Creates a proof that a key is or is not contained in the tree, which can be checked with verifyProof
+     * Time complexity: O(log_B n)
+     * 
+     * @param root The CID of the tree
+     * @param key The key we are looking for
+     * @returns The blocks on the path from the root to the leaf which would contain the key
+     */
+    public async prove (root:CID, key:K) : Promise<RabinProof> {
+        // no cache here, otherwise we would miss blocks
+        const storage = new RecordingStorage(this.storage);
+        const tree = new RabinBTree<K>(this.hasher, this.codec, storage, this.compare);
+        await tree.eq(root, key);
+        return storage.proof();
+    }
+
+    /**
+     * Checks that every node of the tree is present and canonical: counts match the size of each child,
+     * keys are sorted and match the first key of each child, leaves are all at the same depth and
+     * node boundaries match chunk().
+     * Complexity: O(n)
+     * 
+     * @param root The root of the tree
+     * @returns A list of all problems which were found, empty if the tree is ok
+     */
+    public async verify (root:CID) : Promise<RabinVerifyError[]> {
+        return verifyTree(this, root, this.compare);
+    }
+
     /**
      * Returns the number of elements in the tree
      * Complexity: O(1)
@@ -201,6 +551,155 @@ export class RabinBTree<K> {
         return sum(node.count, 0, node.count.length);
     }
 
+    /**
+     * Returns the index of key in the tree, or the index it would be inserted at if the tree does not contain it
+     * Complexity: O(log_B n)
+     * 
+     * @param root The root of the tree
+     * @param key The key we are looking for
+     * @returns The number of keys in the tree which are less than key
+     */
+    public async indexOf (root:CID, key:K) : Promise<number> {
+        return this._rank(root, key, false);
+    }
+
+    /**
+     * Returns the entry with the greatest key <= key
+     * Complexity: O(log_B n)
+     * 
+     * @param root The root of the tree
+     * @param key The key we are looking for
+     * @returns The entry and its index, or null if every key in the tree is > key
+     */
+    public async floor (root:CID, key:K) : Promise<{ key:K, value:CID, index:number }|null> {
+        return this._entry(root, await this._rank(root, key, true) - 1);
+    }
+
+    /**
+     * Returns the entry with the least key >= key
+     * Complexity: O(log_B n)
+     * 
+     * @param root The root of the tree
+     * @param key The key we are looking for
+     * @returns The entry and its index, or null if every key in the tree is < key
+     */
+    public async ceiling (root:CID, key:K) : Promise<{ key:K, value:CID, index:number }|null> {
+        return this._entry(root, await this._rank(root, key, false));
+    }
+
+    /**
+     * Returns the entry with the greatest key < key
+     * Complexity: O(log_B n)
+     * 
+     * @param root The root of the tree
+     * @param key The key we are looking for
+     * @returns The entry and its index, or null if every key in the tree is >= key
+     */
+    public async lower (root:CID, key:K) : Promise<{ key:K, value:CID, index:number }|null> {
+        return this._entry(root, await this._rank(root, key, false) - 1);
+    }
+
+    /**
+     * Returns the entry with the least key > key
+     * Complexity: O(log_B n)
+     * 
+     * @param root The root of the tree
+     * @param key The key we are looking for
+     * @returns The entry and its index, or null if every key in the tree is <= key
+     */
+    public async higher (root:CID, key:K) : Promise<{ key:K, value:CID, index:number }|null> {
+        return this._entry(root, await this._rank(root, key, true));
+    }
+
+    // the entry at index, or null if index is out of bounds
+    private async _entry (root:CID, index:number) {
+        if (index < 0 || index >= await this.size(root)) {
+            return null;
+        }
+        const { key, value } = await this.at(root, index);
+        return { key, value, index };
+    }
+
+    /**
+     * Counts the entries in a range without visiting them
+     * Complexity: O(log_B n)
+     * 
+     * @param root The root of the tree
+     * @param options The range, same as for scan
+     * @returns The number of entries scan would yield for the range
+     */
+    public async countRange (root:CID, options?:RabinBTreeRangeSpec<K>) : Promise<number> {
+        const [start, end] = await this._range(root, options || {});
+        return end - start;
+    }
+
+    /**
+     * Combines the summaries of all entries in a range, the tree must have a reducer (see reducer.ts)
+     * Complexity: O(log_B n)
+     * 
+     * @param root The root of the tree
+     * @param options The range, same as for scan
+     * @returns The summary of the entries scan would yield for the range
+     */
+    public async reduce (root:CID, options?:RabinBTreeRangeSpec<K>) : Promise<S> {
+        const reducer = this.options.reducer;
+        if (!reducer) {
+            throw new Error('rabin-b-tree: tree has no reducer');
+        }
+        const [start, end] = await this._range(root, options || {});
+        return reduceRange(this, reducer, root, start, end);
+    }
+
+    // number of keys in the tree which are < key, or <= key if inclusive
+    private async _rank (root:CID, key:K, inclusive:boolean) : Promise<number> {
+        let cid = root;
+        let rank = 0;
+        while (true) {
+            const block = await this.parseNode(cid);
+            let idx = -1;
+            for (let i = 0; i < block.keys.length; ++i) {
+                const d = this.compare(block.keys[i], key);
+                if (d < 0 || (inclusive && d === 0)) {
+                    idx = i;
+                } else {
+                    break;
+                }
+            }
+            if (idx < 0) {
+                return rank;
+            }
+            rank += sum(block.count, 0, idx);
+            if (block.leaf) {
+                return rank + 1;
+            }
+            cid = block.hashes[idx];
+        }
+    }
+
+    // converts a range spec to a range of indices [start, end)
+    private async _range (root:CID, options:RabinBTreeRangeSpec<K>) : Promise<[number, number]> {
+        let start = Math.max(options.lo || 0, 0);
+        let end = Math.min('hi' in options ? options.hi : Infinity, await this.size(root));
+        if ('lt' in options) {
+            start = Math.max(start, await this._rank(root, options.lt, true));
+        } else if ('le' in options) {
+            start = Math.max(start, await this._rank(root, options.le, false));
+        }
+        if ('gt' in options) {
+            end = Math.min(end, await this._rank(root, options.gt, false));
+        } else if ('ge' in options) {
+            end = Math.min(end, await this._rank(root, options.ge, true));
+        }
+        if ('limit' in options) {
+            if (options.reverse) {
+                start = Math.max(start, end - options.limit);
+            } else {
+                end = Math.min(end, start + options.limit);
+            }
+        }
+        return [start, Math.max(start, end)];
+    }
+
     /**
      * Async generator, scans a continuous section of the tree, specified by options.
      * Complexity: O(k + log(n))  where k = number of rows visited
@@ -211,6 +710,14 @@ export class RabinBTree<K> {
      */
     public async* scan(root:CID, _options?:RabinBTreeRangeSpec<K>) {
         const options = _options || {};
+        const [start, end] = await this._range(root, options);
+        let count = end - start;
+        if (count <= 0) {
+            return;
+        }
+
+        const prefetch = new NodePrefetcher(this, this.options.prefetch || 0);
+        const step = options.reverse ? -1 : 1;
 
         // first do a search on the start of the array to initialize the stack
         const stack:{
@@ -218,31 +725,11 @@ export class RabinBTree<K> {
             hashes:CID[];
             keys:K[];
         }[] = [];
-
-        let count = 'hi' in options ? options.hi : Infinity;
-        if ('lt' in options || 'le' in options) {
+        {
             let cid = root;
-            const key = 'lt' in options ? options.lt : options.le;
-            while (true) {
-                const block = await this.parseNode(cid);
-                const idx = Math.max(findPred(block.keys, key, this.compare), 0);
-                count -= sum(block.count, 0, idx);
-                stack.push({
-                    index: idx,
-                    keys: block.keys,
-                    hashes: block.hashes,
-                });
-                if (block.leaf) {
-                    break;
-                }
-                cid = block.hashes[idx];
-            }
-        } else {
-            let cid = root;
-            let ptr = Math.max(options.lo || 0, 0);
-            count -= ptr;
+            let ptr = options.reverse ? end - 1 : start;
             search_loop: while (true) {
-                const block = await this.parseNode(cid);
+                const block = await prefetch.get(cid);
                 for (let i = 0; i < block.count.length; ++i) {
                     const count = block.count[i];
                     if (ptr < count) {
@@ -255,6 +742,7 @@ export class RabinBTree<K> {
                             break search_loop;
                         } else {
                             cid = block.hashes[i];
+                            prefetch.ahead(block.hashes, i + step, step);
                             continue search_loop;
                         }
                     }
@@ -264,42 +752,13 @@ export class RabinBTree<K> {
             }
         }
 
-        // handle empty tree
-        if (stack[0].hashes.length === 0) {
-            return;
-        }
-
-        // handle count limits
-        if ('limit' in options) {
-            count = Math.min(count, options.limit);
-        }
-
-        // handle boundary case for lt
-        if ('lt' in options) {
-            const top = stack[stack.length - 1];
-            while (this.compare(top.keys[top.index], options.lt) === 0) {
-                top.index += 1;
-            }
-        }
-
         // next we start scanning the array
         while (count > 0) {            
             // scan leaf node items
             const top = stack.pop();
-            const n = Math.min(count, top.hashes.length - top.index)
-            for (let i = 0, ptr = top.index; i < n; ++i) {
-                const key = top.keys[ptr];
-                if ('gt' in options) {
-                    if (this.compare(options.gt, key) >= 0) {
-                        break;
-                    }
-                } else if ('ge' in options) {
-                    if (this.compare(options.ge, key) > 0) {
-                        break;
-                    }
-                }
-                yield { key, value: top.hashes[ptr] };
-                ptr += 1;
+            const n = Math.min(count, options.reverse ? top.index + 1 : top.hashes.length - top.index)
+            for (let i = 0, ptr = top.index; i < n; ++i, ptr += step) {
+                yield { key: top.keys[ptr], value: top.hashes[ptr] };
             }
 
             // decrement count and terminate if necessary
@@ -311,8 +770,8 @@ export class RabinBTree<K> {
             // walk to next node in stack
             while (true) {
                 const top = stack[stack.length - 1];
-                top.index += 1;
-                if (top.index >= top.hashes.length) {
+                top.index += step;
+                if (top.index < 0 || top.index >= top.hashes.length) {
                     // if we are at the end of this node's sequence then pop it from the stack
                     stack.pop();
                     if (stack.length === 0) {
@@ -321,17 +780,20 @@ export class RabinBTree<K> {
                 } else {
                     // otherwise we pop hashes off recursively
                     let cid = top.hashes[top.index];
+                    prefetch.ahead(top.hashes, top.index + step, step);
                     while (true) {
-                        const block = await this.parseNode(cid);
+                        const block = await prefetch.get(cid);
+                        const index = options.reverse ? block.hashes.length - 1 : 0;
                         stack.push({
-                            index: 0,
+                            index,
                             keys: block.keys,
                             hashes: block.hashes,
                         });
                         if (block.leaf) {
                             break;
                         } else {
-                            cid = block.hashes[0];
+                            cid = block.hashes[index];
+                            prefetch.ahead(block.hashes, index + step, step);
                         }
                     }
                     break;
@@ -340,13 +802,502 @@ export class RabinBTree<K> {
         }
     }
 
-    private async _levels (root:CID, key:K) : Promise<RabinBTreeLevel<K>[]> {
+    /**
+     * Scans a section of the tree and creates a proof of the result, which can be checked with verifyRangeProof.
+     * Complexity: O(k + log(n))  where k = number of rows visited
+     * 
+     * @param root The root node of the tree
+     * @param options (optional) Range of the tree to scan, same as scan
+     * @returns The entries in the range, and the blocks needed to check that no entry was left out
+     */
+    public async proveRange (root:CID, options?:RabinBTreeRangeSpec<K>) : Promise<{ entries:{ key:K, value:CID }[], proof:RabinProof }> {
+        // no cache here, otherwise we would miss blocks
+        const storage = new RecordingStorage(this.storage);
+        const tree = new RabinBTree<K>(this.hasher, this.codec, storage, this.compare);
+        const entries:{ key:K, value:CID }[] = [];
+        for await (const entry of tree.scan(root, options)) {
+            entries.push(entry);
+        }
+        return { entries, proof: storage.proof() };
+    }
+
+    /**
+     * Async generator, computes the difference between two trees in key order.
+     * Subtrees which are shared between both trees are skipped without reading them.
+     * Complexity: O(k log(n)) where k = number of changed rows
+     * 
+     * @param oldRoot The root of the original tree
+     * @param newRoot The root of the updated tree
+     * @yields A sequence of added, removed and changed keys
+     */
+    public async* diff (oldRoot:CID, newRoot:CID) : AsyncGenerator<RabinBTreeDiff<K>> {
+        if (oldRoot.equals(newRoot)) {
+            return;
+        }
+        const a = new RabinCursor<K, S>(this, oldRoot);
+        const b = new RabinCursor<K, S>(this, newRoot);
+        while (true) {
+            const x = await a.peek();
+            const y = await b.peek();
+            if (!x && !y) {
+                return;
+            }
+
+            // only one side left, expand it down to the values
+            if (!y) {
+                if (x.height > 0) {
+                    await a.expand();
+                } else {
+                    yield { key: x.entry.key, oldValue: x.entry.hash, newValue: null };
+                    a.next();
+                }
+                continue;
+            }
+            if (!x) {
+                if (y.height > 0) {
+                    await b.expand();
+                } else {
+                    yield { key: y.entry.key, oldValue: null, newValue: y.entry.hash };
+                    b.next();
+                }
+                continue;
+            }
+
+            // skip identical subtrees
+            if (x.height > 0 && x.height === y.height && x.entry.hash.equals(y.entry.hash)) {
+                a.next();
+                b.next();
+                continue;
+            }
+
+            // line up heights of both cursors
+            if (x.height > y.height) {
+                await a.expand();
+                continue;
+            } else if (y.height > x.height) {
+                await b.expand();
+                continue;
+            }
+
+            const d = this.compare(x.entry.key, y.entry.key);
+            if (x.height > 0) {
+                if (d <= 0) {
+                    await a.expand();
+                }
+                if (d >= 0) {
+                    await b.expand();
+                }
+            } else if (d < 0) {
+                yield { key: x.entry.key, oldValue: x.entry.hash, newValue: null };
+                a.next();
+            } else if (d > 0) {
+                yield { key: y.entry.key, oldValue: null, newValue: y.entry.hash };
+                b.next();
+            } else {
+                if (!x.entry.hash.equals(y.entry.hash)) {
+                    yield { key: x.entry.key, oldValue: x.entry.hash, newValue: y.entry.hash };
+                }
+                a.next();
+                b.next();
+            }
+        }
+    }
+
+    /**
+     * Three-way merge of two trees which were derived from a common ancestor.
+     * Changes from theirs are applied on top of ours, keys which were changed on both sides are passed to resolve.
+     * Complexity: O(k log(n)) where k = number of changed rows
+     * 
+     * @param base The root of the common ancestor of both trees
+     * @param ours The root of our version of the tree
+     * @param theirs The root of their version of the tree
+     * @param resolve Called for each key which was changed differently on both sides
+     * @returns The CID of the root of the merged tree
+     */
+    public async merge (base:CID, ours:CID, theirs:CID, resolve:RabinBTreeMergeResolver<K>) : Promise<CID> {
+        if (base.equals(theirs) || ours.equals(theirs)) {
+            return ours;
+        } else if (base.equals(ours)) {
+            return theirs;
+        }
+
+        const mine = this.diff(base, ours);
+        const other = this.diff(base, theirs);
+        const ops:RabinBTreeOp<K>[] = [];
+        let x = await mine.next();
+        let y = await other.next();
+        while (!y.done) {
+            const { key, oldValue, newValue } = y.value;
+            if (!x.done) {
+                const d = this.compare(x.value.key, key);
+                if (d < 0) {
+                    x = await mine.next();
+                    continue;
+                } else if (d === 0) {
+                    // both sides changed the same key
+                    const ourValue = x.value.newValue;
+                    x = await mine.next();
+                    y = await other.next();
+                    if (sameValue(ourValue, newValue)) {
+                        continue;
+                    }
+                    const value = await resolve(key, oldValue, ourValue, newValue);
+                    if (!sameValue(value, ourValue)) {
+                        ops.push(value ? { type: 'put', key, value } : { type: 'del', key });
+                    }
+                    continue;
+                }
+            }
+            ops.push(newValue ? { type: 'put', key, value: newValue } : { type: 'del', key });
+            y = await other.next();
+        }
+        return this.apply(ours, ops);
+    }
+
+    /**
+     * Applies a batch of puts and deletes to the tree.  Each node which is affected by the batch is written once,
+     * and untouched subtrees are reused without being read.
+     * Time & space complexity: O(k log(n)) where k = number of operations
+     * 
+     * @param root The root of the tree
+     * @param ops A list of operations, in any order.  If a key occurs more than once the last operation wins.
+     * @returns The CID of the root of the new tree
+     */
+    public async apply (root:CID, ops:RabinBTreeOp<K>[]) : Promise<CID> {
+        if (ops.length === 0) {
+            return root;
+        }
+
+        // sort operations by key, keeping only the last operation for each key
+        const sorted = ops.slice().sort((a, b) => this.compare(a.key, b.key));
+        const edits:RabinBTreeOp<K>[] = [];
+        for (const op of sorted) {
+            if (edits.length > 0 && this.compare(edits[edits.length - 1].key, op.key) === 0) {
+                edits[edits.length - 1] = op;
+            } else {
+                edits.push(op);
+            }
+        }
+
+        const cursor = new RabinCursor<K, S>(this._reusedSource, root);
+        const builder = this._builder();
+        const summary = (key:K, value:CID) => this._summary(key, value);
+        let ptr = 0;
+
+        // push all new values with keys before bound
+        async function insert (bound:K|undefined, compare:(a:K, b:K) => number) {
+            while (ptr < edits.length && (bound === undefined || compare(edits[ptr].key, bound) < 0)) {
+                const op = edits[ptr++];
+                if (op.type === 'put') {
+                    await builder.push(0, { count: 1, key: op.key, hash: op.value, summary: await summary(op.key, op.value) });
+                }
+            }
+        }
+
+        while (true) {
+            const piece = await cursor.peek();
+            if (!piece) {
+                break;
+            }
+            const { key } = piece.entry;
+            await insert(key, this.compare);
+
+            if (piece.height > 0) {
+                // reuse subtree if no edits land inside it
+                const end = cursor.nextKey();
+                const touched = ptr < edits.length && (end === undefined || this.compare(edits[ptr].key, end) < 0);
+                if (!touched && piece.closed && builder.aligned(piece.height)) {
+                    await builder.push(piece.height, piece.entry);
+                    cursor.next();
+                } else {
+                    await cursor.expand();
+                }
+                continue;
+            }
+
+            if (ptr < edits.length && this.compare(edits[ptr].key, key) === 0) {
+                const op = edits[ptr++];
+                if (op.type === 'put') {
+                    await builder.push(0, { count: 1, key, hash: op.value, summary: await this._summary(key, op.value) });
+                }
+            } else {
+                await builder.push(0, piece.entry);
+            }
+            cursor.next();
+        }
+        await insert(undefined, this.compare);
+
+        const result = await builder.finish();
+        if (!result) {
+            return await this.serializeNode(true, [], [], []);
+        }
+        return result;
+    }
+
+    /**
+     * Removes every entry in a range from the tree.  Subtrees which are entirely inside the range are dropped without
+     * being read, and only the nodes along the two edges of the range are rebuilt.
+     * Time & space complexity: O(log_B n)
+     * 
+     * @param root The root of the tree
+     * @param options The range to remove, same as for scan
+     * @returns The CID of the root of the new tree
+     */
+    public async removeRange (root:CID, options:RabinBTreeRangeSpec<K>) : Promise<CID> {
+        const [start, end] = await this._range(root, options);
+        if (start >= end) {
+            return root;
+        }
+
+        const cursor = new RabinCursor<K, S>(this._reusedSource, root);
+        const builder = this._builder();
+        let index = 0;
+        while (true) {
+            const piece = await cursor.peek();
+            if (!piece) {
+                break;
+            }
+            const { count } = piece.entry;
+            if (start <= index && index + count <= end) {
+                cursor.next();
+            } else if ((index + count <= start || end <= index) &&
+                (piece.height === 0 || (piece.closed && builder.aligned(piece.height)))) {
+                await builder.push(piece.height, piece.entry);
+                cursor.next();
+            } else {
+                await cursor.expand();
+                continue;
+            }
+            index += count;
+        }
+
+        const result = await builder.finish();
+        if (!result) {
+            return await this.serializeNode(true, [], [], []);
+        }
+        return result;
+    }
+
+    /**
+     * Splits a tree in two at a key
+     * Time & space complexity: O(log_B n)
+     * 
+     * @param root The root of the tree
+     * @param key The key to split at
+     * @returns The roots of a tree with all keys < key and a tree with all keys >= key
+     */
+    public async split (root:CID, key:K) : Promise<[CID, CID]> {
+        return Promise.all([
+            this.removeRange(root, { le: key }),
+            this.removeRange(root, { gt: key }),
+        ]);
+    }
+
+    /**
+     * Concatenates two trees, every key in left must be less than every key in right.  Only the nodes along the
+     * right edge of left and the left edge of right are rebuilt.
+     * Time & space complexity: O(log_B n)
+     * 
+     * @param left The root of the tree with the smaller keys
+     * @param right The root of the tree with the larger keys
+     * @returns The root of a tree with the entries of both trees
+     */
+    public async join (left:CID, right:CID) : Promise<CID> {
+        const [leftSize, rightSize] = await Promise.all([ this.size(left), this.size(right) ]);
+        if (rightSize === 0) {
+            return left;
+        } else if (leftSize === 0) {
+            return right;
+        }
+        const [last, first] = await Promise.all([ this.at(left, leftSize - 1), this.at(right, 0) ]);
+        if (this.compare(last.key, first.key) >= 0) {
+            throw new Error('rabin-b-tree: cannot join trees with overlapping keys');
+        }
+
+        const builder = this._builder();
+        await this._pushTree(builder, left);
+        await this._pushTree(builder, right);
+        return builder.finish();
+    }
+
+    /**
+     * Returns a tree with every key that is in either a or b.  Subtrees which are identical in both trees or
+     * which cover a key range the other tree has no keys in are reused without being read.
+     * Time & space complexity: O(k log_B n) where k = number of places where the trees interleave
+     * 
+     * @param a The root of the first tree
+     * @param b The root of the second tree
+     * @param combine Picks the value of keys which are in both trees with different values, defaults to the value in a
+     * @returns The root of the union
+     */
+    public async union (a:CID, b:CID, combine:RabinBTreeCombiner<K> = (key, x) => x) : Promise<CID> {
+        if (a.equals(b)) {
+            return a;
+        }
+        return this._combine(a, b, true, true, combine);
+    }
+
+    /**
+     * Returns a tree with every key that is in both a and b.  Subtrees which are identical in both trees are
+     * reused, subtrees which cover a key range the other tree has no keys in are skipped without being read.
+     * Time & space complexity: O(k log_B n) where k = number of places where the trees interleave
+     * 
+     * @param a The root of the first tree
+     * @param b The root of the second tree
+     * @param combine Picks the value of keys which have different values in both trees, defaults to the value in a
+     * @returns The root of the intersection
+     */
+    public async intersection (a:CID, b:CID, combine:RabinBTreeCombiner<K> = (key, x) => x) : Promise<CID> {
+        if (a.equals(b)) {
+            return a;
+        }
+        return this._combine(a, b, false, false, combine);
+    }
+
+    /**
+     * Returns a tree with every key of a that is not in b
+     * Time & space complexity: O(k log_B n) where k = number of places where the trees interleave
+     * 
+     * @param a The root of the tree to remove keys from
+     * @param b The root of the tree with the keys to remove
+     * @returns The root of the difference
+     */
+    public async difference (a:CID, b:CID) : Promise<CID> {
+        return this._combine(a, b, true, false, null);
+    }
+
+    // merges two trees, keeping keys which are only in left or only in right if the corresponding flag is set.
+    // keys in both trees are combined with both, or dropped if it is null
+    private async _combine (left:CID, right:CID, onlyLeft:boolean, onlyRight:boolean, both:RabinBTreeCombiner<K>|null) {
+        const a = new RabinCursor<K, S>(this._reusedSource, left);
+        const b = new RabinCursor<K, S>(this._reusedSource, right);
+        const builder = this._builder();
+
+        // pushes a piece, or expands it if it has to be rechunked
+        async function take (cursor:RabinCursor<K, S>, piece:RabinPiece<K, S>) {
+            if (piece.height === 0 || (piece.closed && builder.aligned(piece.height))) {
+                await builder.push(piece.height, piece.entry);
+                cursor.next();
+            } else {
+                await cursor.expand();
+            }
+        }
+
+        while (true) {
+            const x = await a.peek();
+            const y = await b.peek();
+            if (!x && !y) {
+                break;
+            }
+
+            // pieces with no keys in common with the other tree
+            if (x && (!y || this._before(a, x, y))) {
+                if (onlyLeft) {
+                    await take(a, x);
+                } else {
+                    a.next();
+                }
+                continue;
+            }
+            if (!x || this._before(b, y, x)) {
+                if (onlyRight) {
+                    await take(b, y);
+                } else {
+                    b.next();
+                }
+                continue;
+            }
+
+            // identical subtrees
+            if (x.height > 0 && x.height === y.height && x.entry.hash.equals(y.entry.hash)) {
+                if (!both) {
+                    a.next();
+                    b.next();
+                } else if (x.closed && builder.aligned(x.height)) {
+                    await builder.push(x.height, x.entry);
+                    a.next();
+                    b.next();
+                } else {
+                    await a.expand();
+                    await b.expand();
+                }
+                continue;
+            }
+
+            // overlapping subtrees
+            if (x.height > 0 || y.height > 0) {
+                if (x.height >= y.height) {
+                    await a.expand();
+                } else {
+                    await b.expand();
+                }
+                continue;
+            }
+
+            // same key in both trees
+            if (both) {
+                const { key } = x.entry;
+                const value = x.entry.hash.equals(y.entry.hash) ? x.entry.hash : await both(key, x.entry.hash, y.entry.hash);
+                if (value && value.equals(x.entry.hash)) {
+                    await builder.push(0, x.entry);
+                } else if (value && value.equals(y.entry.hash)) {
+                    await builder.push(0, y.entry);
+                } else if (value) {
+                    await builder.push(0, { count: 1, key, hash: value, summary: await this._summary(key, value) });
+                }
+            }
+            a.next();
+            b.next();
+        }
+
+        const result = await builder.finish();
+        if (!result) {
+            return await this.serializeNode(true, [], [], []);
+        }
+        return result;
+    }
+
+    // true if every key in piece is less than the first key of other
+    private _before (cursor:RabinCursor<K, S>, piece:RabinPiece<K, S>, other:RabinPiece<K, S>) {
+        if (piece.height === 0) {
+            return this.compare(piece.entry.key, other.entry.key) < 0;
+        }
+        const end = cursor.nextKey();
+        return end !== undefined && this.compare(end, other.entry.key) <= 0;
+    }
+
+    private _builder () {
+        return new RabinBuilder<K, S>(
+            (leaf, count, keys, hashes, summaries) => this.serializeNode(leaf, count, keys, hashes, summaries),
+            this.chunker,
+            (level, i) => this._chunkEntry(level, i),
+            (summaries) => this._combineSummaries(summaries));
+    }
+
+    // appends all entries of a tree to builder, reusing every subtree which does not need to be rechunked
+    private async _pushTree (builder:RabinBuilder<K, S>, root:CID) {
+        const cursor = new RabinCursor<K, S>(this._reusedSource, root);
+        while (true) {
+            const piece = await cursor.peek();
+            if (!piece) {
+                return;
+            }
+            if (piece.height === 0 || (piece.closed && builder.aligned(piece.height))) {
+                await builder.push(piece.height, piece.entry);
+                cursor.next();
+            } else {
+                await cursor.expand();
+            }
+        }
+    }
+
+    private async _levels (root:CID, key:K) : Promise<RabinBTreeLevel<K, S>[]> {
         // read in levels of the tree as we are splicing into the tree
-        const levels:RabinBTreeLevel<K>[] = [];
+        const levels:RabinBTreeLevel<K, S>[] = [];
         {   // scan down bottom of tree and build a stack of level
             let cid = root;
             while (true) {
-                const block = await this.parseNode(cid);
+                const block = await this._parseReused(cid);
                 // special case: insert into empty tree
                 if (cid === root && block.hashes.length === 0) {
                     return [];
@@ -370,6 +1321,7 @@ export class RabinBTree<K> {
                             count: block.count.slice(),
                             keys: block.keys.slice(),
                             hashes: block.hashes.slice(),
+                            summaries: block.summaries.slice(),
                         },
                         {
                             start: 0,
@@ -377,6 +1329,7 @@ export class RabinBTree<K> {
                             count: [],
                             keys: [],
                             hashes: [],
+                            summaries: [],
                         });
                     break;
                 } else {
@@ -386,6 +1339,7 @@ export class RabinBTree<K> {
                         count: block.count.slice(),
                         keys: block.keys.slice(),
                         hashes: block.hashes.slice(),
+                        summaries: block.summaries.slice(),
                     });
                     cid = block.hashes[i];
                 }
@@ -395,7 +1349,7 @@ export class RabinBTree<K> {
         return levels;
     }
 
-    private async _extend (levels:RabinBTreeLevel<K>[], level:number) : Promise<boolean> {
+    private async _extend (levels:RabinBTreeLevel<K, S>[], level:number) : Promise<boolean> {
         if (level === levels.length - 1) {
             return false;
         }
@@ -406,21 +1360,22 @@ export class RabinBTree<K> {
             }
         }
         const cid = parent.hashes[parent.end++];
-        const node = await this.parseNode(cid);
+        const node = await this._parseReused(cid);
         const l = levels[level];
         for (let i = 0; i < node.count.length; ++i) {
             l.count.push(node.count[i]);
             l.keys.push(node.keys[i]);
             l.hashes.push(node.hashes[i]);
+            l.summaries.push(node.summaries[i]);
         }
         return true;
     }
 
     // rebuilds a section of a b-tree
-    private async _rebuild (levels:RabinBTreeLevel<K>[]) {
+    private async _rebuild (levels:RabinBTreeLevel<K, S>[]) {
         for (let i = 0; i < levels.length; ++i) {
             // retrieve parent level
-            let parent:RabinBTreeLevel<K>;
+            let parent:RabinBTreeLevel<K, S>;
             if (i === levels.length - 1) {
                 parent = {
                     start: 0,
@@ -428,6 +1383,7 @@ export class RabinBTree<K> {
                     count: [],
                     keys: [],
                     hashes: [],
+                    summaries: [],
                 };
                 levels.push(parent);
             } else {
@@ -440,35 +1396,42 @@ export class RabinBTree<K> {
                 parent.count.splice(start, deleteCount, ...levels[i].count);
                 parent.keys.splice(start, deleteCount, ...levels[i].keys);
                 parent.hashes.splice(start, deleteCount, ...levels[i].hashes);
+                parent.summaries.splice(start, deleteCount, ...levels[i].summaries);
             }
 
             { // recompute parent node hahes
                 const nextCount:number[] = [];
                 const nextKeys:K[] = [];
-                const nextHashes:Promise<CID>[] = [];
+                const nextSummaries:S[] = [];
+                const nextBlocks:Promise<Block<any>>[] = [];
     
                 for(let lo = 0; lo < parent.count.length; ) {
-                    let hi = nextChunk(parent.hashes, lo);
+                    let hi = this.chunk(parent, lo);
                     while (hi < 0) {
                         if (!await this._extend(levels, i + 1)) {
                             hi = parent.hashes.length;
                             break;
                         }
-                        hi = nextChunk(parent.hashes, lo);
+                        hi = this.chunk(parent, lo);
                     }
                     nextCount.push(sum(parent.count, lo, hi));
                     nextKeys.push(parent.keys[lo]);
-                    nextHashes.push(this.serializeNode(
+                    nextSummaries.push(this._combineSummaries(parent.summaries.slice(lo, hi)));
+                    nextBlocks.push(this._encodeNode(
                         i === 0,
                         parent.count.slice(lo, hi),
                         parent.keys.slice(lo, hi),
-                        parent.hashes.slice(lo, hi)));
+                        parent.hashes.slice(lo, hi),
+                        parent.summaries.slice(lo, hi)));
                     lo = hi;
                 }
 
+                const blocks = await Promise.all(nextBlocks);
+                await putMany(this.storage, blocks);
                 parent.count = nextCount;
                 parent.keys = nextKeys;
-                parent.hashes = await Promise.all(nextHashes);
+                parent.hashes = blocks.map((b) => b.cid);
+                parent.summaries = nextSummaries;
             }
 
             // if we are at the top of the tree, terminate
@@ -485,7 +1448,7 @@ export class RabinBTree<K> {
         let result = head.hashes[0];
         while (true) {
             const block = await this.parseNode(result);
-            if (block.hashes.length === 1) {
+            if (!block.leaf && block.hashes.length === 1) {
                 result = block.hashes[0];
             } else {
                 return result;
@@ -510,6 +1473,7 @@ export class RabinBTree<K> {
         levels[0].count.push(1);
         levels[0].keys.push(key);
         levels[0].hashes.push(value);
+        levels[0].summaries.push(await this._summary(key, value));
         return this._rebuild(levels);
     }
 
@@ -533,3 +1497,51 @@ export class RabinBTree<K> {
         return this._rebuild(levels);
     }
 }
+
+/**
+ * Checks a proof created by RabinBTree.prove, without access to the rest of the tree
+ * 
+ * @param root The trusted CID of the root of the tree
+ * @param key The key which was looked up
+ * @param proof The proof
+ * @param spec The hasher, codec and comparison used by the tree
+ * @returns The value of the key, or null if the proof shows that the key is not in the tree.  Throws if the proof is not valid.
+ */
+export async function verifyProof<K> (root:CID, key:K, proof:RabinProof, spec:{
+    hasher:Hasher,
+    codec:Codec,
+    compare:(a:K, b:K) => number,
+}) : Promise<CID|null> {
+    const storage = new ProofStorage(spec.hasher, spec.codec);
+    for (const bytes of proof) {
+        await storage.add(bytes);
+    }
+    const tree = new RabinBTree<K>(spec.hasher, spec.codec, storage, spec.compare);
+    return tree.eq(root, key);
+}
+
+/**
+ * Checks a proof created by RabinBTree.proveRange, without access to the rest of the tree
+ * 
+ * @param root The trusted CID of the root of the tree
+ * @param options The range which was scanned
+ * @param proof The proof
+ * @param spec The hasher, codec and comparison used by the tree
+ * @returns All entries in the range, clients should use these instead of the ones sent with the proof.  Throws if the proof is not valid.
+ */
+export async function verifyRangeProof<K> (root:CID, options:RabinBTreeRangeSpec<K>|undefined, proof:RabinProof, spec:{
+    hasher:Hasher,
+    codec:Codec,
+    compare:(a:K, b:K) => number,
+}) : Promise<{ key:K, value:CID }[]> {
+    const storage = new ProofStorage(spec.hasher, spec.codec);
+    for (const bytes of proof) {
+        await storage.add(bytes);
+    }
+    const tree = new RabinBTree<K>(spec.hasher, spec.codec, storage, spec.compare);
+    const entries:{ key:K, value:CID }[] = [];
+    for await (const entry of tree.scan(root, options)) {
+        entries.push(entry);
+    }
+    return entries;
+}
@@ -1,62 +1,269 @@
-import { Hasher, Codec, Storage, CID, encode, Block, parseCID } from './multiformat';
-import { nextChunk } from './chunk';
+import { Hasher, Codec, Storage, CID, encode, Block, getMany, putMany } from './multiformat';
+import { ChunkCache, ChunkEntry, ChunkerConfig, DEFAULT_CHUNKER, ENTRY_OVERHEAD_BYTES, gear, isDefaultChunker, nextChunk, resolveChunker, sameChunker } from './chunk';
 import { sum } from './helpers';
-
-type RabinListNode = {
+import { RabinCursor, RabinNodeSource } from './cursor';
+import { RabinBuilder } from './builder';
+import { NodeCache } from './cache';
+import { NodePrefetcher } from './prefetch';
+import { defaultNodeFormat, NODE_FORMAT_V1, parseLink } from './format';
+import { ProofStorage, RabinProof, RecordingStorage } from './proof';
+import { RabinVerifyError, verifyTree } from './fsck';
+import { RabinReducer, reduceRange } from './reducer';
+
+type RabinListNode<S> = {
     leaf:boolean;
     count:number[];
     hashes:CID[];
+    chunker:ChunkerConfig;
+    reducer?:string;
+    summaries:S[];
 }
 
-type RabinListLevel = {
+type RabinListLevel<S> = {
     start:number;
     end:number;
     count:number[];
     hashes:CID[];
+    summaries:S[];
 }
 
-type RabinListRangeSpec = {
+export type RabinListOptions<S = unknown> = {
+    // decoded nodes are kept here, can be shared with other trees
+    cache?:NodeCache;
+
+    // encoding of new nodes, see format.ts.  defaults to links if the codec supports them
+    format?:number;
+
+    // chunking parameters, missing ones are taken from DEFAULT_CHUNKER.  larger nodes suit small entries
+    chunker?:Partial<ChunkerConfig>;
+
+    // number of sibling subtrees scan loads ahead of the current position on each level, 0 to disable
+    prefetch?:number;
+
+    // stores a summary of every subtree next to its count, see reducer.ts
+    reducer?:RabinReducer<undefined, S>;
+}
+
+export type RabinListRangeSpec = {
     lo?:number;
     hi?:number;
     limit?:number;
+
+    // if set, items are yielded from the end of the range to the start, and limit counts from the end
+    reverse?:boolean;
 }
 
-export class RabinList {
+export class RabinList<S = unknown> {
     constructor (
         public hasher:Hasher,
         public codec:Codec,
         public storage:Storage,
-    ) {}
+        public options:RabinListOptions<S> = {},
+    ) {
+        this.chunker = resolveChunker(options.chunker);
+    }
+
+    // chunking parameters of new nodes
+    public chunker:ChunkerConfig;
+
+    private _chunkCache = new ChunkCache();
+
+    // source for the cursors of updates, which copy entries of the nodes they read into the new list
+    private _reusedSource:RabinNodeSource<undefined, S> = { parseNode: (cid) => this._parseReused(cid) };
+
+    private _format () {
+        return 'format' in this.options ? this.options.format : defaultNodeFormat(this.codec);
+    }
 
     // TODO: replace this with a more efficient encoding
-    public async serializeNode (leaf:boolean, counts:number[], hashes:CID[]) {
-        const block = await encode({
-            value: [
+    private _encodeNode (leaf:boolean, counts:number[], hashes:CID[], summaries:S[]) : Promise<Block<any>> {
+        const reducer = this.options.reducer;
+        let value:any;
+        if (this._format() === NODE_FORMAT_V1) {
+            value = {
+                v: NODE_FORMAT_V1,
+                leaf,
+                count: counts,
+                links: hashes,
+            };
+            if (!isDefaultChunker(this.chunker)) {
+                value.chunker = this.chunker;
+            }
+            if (reducer) {
+                value.reducer = reducer.name;
+                value.summaries = summaries;
+            }
+        } else {
+            value = [
                 leaf,
                 counts,
                 hashes.map((h) => h.toString())
-            ],
+            ];
+            if (!isDefaultChunker(this.chunker) || reducer) {
+                value.push(isDefaultChunker(this.chunker) ? null : this.chunker);
+            }
+            if (reducer) {
+                value.push(reducer.name, summaries);
+            }
+        }
+        return encode({
+            value,
             hasher: this.hasher,
             codec: this.codec,
         });
+    }
+
+    public async serializeNode (leaf:boolean, counts:number[], hashes:CID[], summaries?:S[]) {
+        const block = await this._encodeNode(leaf, counts, hashes, summaries || await this._summarize(leaf, hashes));
         await this.storage.put(block);
         return block.cid;
     }
 
+    public async parseNode (cid:CID) : Promise<RabinListNode<S>> {
+        return (await this.parseNodes([ cid ]))[0];
+    }
+
+    /**
+     * Loads several nodes at once, nodes which are not cached are read from storage in a single batch
+     * 
+     * @param cids The nodes to load
+     * @returns The parsed nodes, in the same order as cids
+     */
+    public async parseNodes (cids:CID[]) : Promise<RabinListNode<S>[]> {
+        const cache = this.options.cache;
+        const nodes = cids.map((cid) => cache ? cache.get<RabinListNode<S>>('list:' + cid.toString()) : undefined);
+        const missing = cids.filter((_, i) => !nodes[i]);
+        if (missing.length === 0) {
+            return nodes;
+        }
+        const blocks = await getMany<any>(this.storage, missing);
+        for (let i = 0, j = 0; i < cids.length; ++i) {
+            if (!nodes[i]) {
+                nodes[i] = this._decodeNode(cids[i], blocks[j++]);
+            }
+        }
+        return nodes;
+    }
+
     // TODO: again, do something not so stupid here
-    public async parseNode (cid:CID) : Promise<RabinListNode> {
-        const block:Block<any> = await this.storage.get(cid);
-        const isLeaf = !!block.value[0];
-        const count = block.value[1];
-        const hashes = block.value[2];
-        if (!Array.isArray(count) || !Array.isArray(hashes) || count.length !== hashes.length) {
+    private _decodeNode (cid:CID, block:Block<any>) : RabinListNode<S> {
+        const cache = this.options.cache;
+        const value = block.value;
+        let isLeaf:boolean, count:any, hashes:any, chunker:any, reducer:any, summaries:any;
+        if (Array.isArray(value)) {
+            isLeaf = !!value[0];
+            count = value[1];
+            hashes = value[2];
+            chunker = value[3];
+            reducer = value[4];
+            summaries = value[5];
+        } else if (value && value.v === NODE_FORMAT_V1) {
+            isLeaf = !!value.leaf;
+            count = value.count;
+            hashes = value.links;
+            chunker = value.chunker;
+            reducer = value.reducer;
+            summaries = value.summaries;
+        }
+        if (!Array.isArray(count) || !Array.isArray(hashes) || count.length !== hashes.length ||
+            (reducer !== undefined && (typeof reducer !== 'string' || !Array.isArray(summaries) || summaries.length !== hashes.length))) {
+            throw new Error('invalid RabinList node ' + cid.toString());
+        }
+        const links = hashes.map(parseLink);
+        if (links.indexOf(null) >= 0) {
+            throw new Error('invalid RabinList node ' + cid.toString());
+        }
+        try {
+            chunker = chunker === undefined || chunker === null ? DEFAULT_CHUNKER : resolveChunker(chunker);
+        } catch (e) {
             throw new Error('invalid RabinList node ' + cid.toString());
         }
-        return {
+        const node = {
             leaf: isLeaf,
             count: count.map((c) => c >>> 0),
-            hashes: hashes.map(parseCID),
+            hashes: links,
+            chunker,
+            reducer,
+            summaries: reducer === undefined ? hashes.map(() => undefined) : summaries,
         };
+        if (cache) {
+            cache.set('list:' + cid.toString(), node, block.bytes.length);
+        }
+        return node;
+    }
+
+    /**
+     * Finds the end of the node which starts at start in a level of the list
+     * 
+     * @param level The hashes of a level of the list
+     * @param start The index of the first entry of the node
+     * @returns The index after the last entry of the node, or -1 if level ends before the node does
+     */
+    public chunk (level:{ hashes:CID[], summaries?:S[] }, start:number) : number {
+        if (this.chunker.maxBytes === 0) {
+            return nextChunk(level.hashes, start, gear, this.chunker);
+        }
+        const entry = (i:number) => this._chunkCache.get(level, i, [ level.hashes[i], level.summaries && level.summaries[i] ], () => this._chunkEntry(level, i));
+        return nextChunk(level.hashes, start, (_, i) => entry(i).hash, this.chunker, (_, i) => entry(i).size);
+    }
+
+    // hash of an entry, and its encoded size if nodes have a byte limit
+    private _chunkEntry (level:{ hashes:CID[], summaries?:S[] }, i:number) : ChunkEntry {
+        let size = 0;
+        if (this.chunker.maxBytes > 0) {
+            const h = level.hashes[i];
+            size = this.codec.encode(this._format() === NODE_FORMAT_V1 ? h : h.toString()).length + ENTRY_OVERHEAD_BYTES;
+            if (this.options.reducer && level.summaries) {
+                size += this.codec.encode(level.summaries[i]).length;
+            }
+        }
+        return { hash: gear(level.hashes[i]), size };
+    }
+
+    /**
+     * Reads the chunking parameters a list was built with
+     * 
+     * @param root The root of the list
+     * @returns The parameters recorded in the root, or the defaults if there are none
+     */
+    public async chunkerOf (root:CID) : Promise<ChunkerConfig> {
+        return (await this.parseNode(root)).chunker;
+    }
+
+    // summaries of the entries of a node, from the values of a leaf or the stored summaries of the children
+    private async _summarize (leaf:boolean, hashes:CID[]) : Promise<S[]> {
+        const reducer = this.options.reducer;
+        if (!reducer) {
+            return hashes.map(() => undefined);
+        } else if (leaf) {
+            return Promise.all(hashes.map((hash) => reducer.map(hash, undefined)));
+        }
+        const nodes = await this.parseNodes(hashes);
+        nodes.forEach((node, i) => this._checkReducer(hashes[i], node));
+        return nodes.map((node) => reducer.combine(node.summaries));
+    }
+
+    // nodes reused in a new list must carry summaries from the reducer of this list, or none if it has no reducer
+    private _checkReducer (cid:CID, node:RabinListNode<S>) {
+        const reducer = this.options.reducer;
+        if (node.reducer !== (reducer ? reducer.name : undefined)) {
+            throw new Error('rabin-list: node ' + cid.toString() + ' was built with a different reducer');
+        }
+    }
+
+    // parses a node whose entries are copied into a new list, it must have been chunked the same way as this list
+    private async _parseReused (cid:CID) : Promise<RabinListNode<S>> {
+        const node = await this.parseNode(cid);
+        if (!sameChunker(node.chunker, this.chunker)) {
+            throw new Error('rabin-list: node ' + cid.toString() + ' was built with different chunker parameters');
+        }
+        this._checkReducer(cid, node);
+        return node;
+    }
+
+    private _combineSummaries (summaries:S[]) : S {
+        const reducer = this.options.reducer;
+        return reducer ? reducer.combine(summaries) : undefined;
     }
 
     /**
@@ -73,30 +280,155 @@ export class RabinList {
 
         let prevCount = hashes.map(() => 1);
         let prevHashes = hashes;
+        let prevSummaries = await this._summarize(true, hashes);
         let leaf = true;
 
         do {
             const nextCount:number[] = [];
-            const nextHashes:Promise<CID>[] = [];
+            const nextSummaries:S[] = [];
+            const nextBlocks:Promise<Block<any>>[] = [];
 
             for(let lo = 0; lo < prevHashes.length; ) {
-                let hi = nextChunk(prevHashes, lo);
+                let hi = this.chunk({ hashes: prevHashes, summaries: prevSummaries }, lo);
                 if (hi < 0) {
                     hi = prevHashes.length;
                 }
                 nextCount.push(sum(prevCount, lo, hi));
-                nextHashes.push(this.serializeNode(leaf, prevCount.slice(lo, hi), prevHashes.slice(lo, hi)));
+                nextSummaries.push(this._combineSummaries(prevSummaries.slice(lo, hi)));
+                nextBlocks.push(this._encodeNode(leaf, prevCount.slice(lo, hi), prevHashes.slice(lo, hi), prevSummaries.slice(lo, hi)));
                 lo = hi;
             }
 
+            // each level is written in one batch
+            const blocks = await Promise.all(nextBlocks);
+            await putMany(this.storage, blocks);
             prevCount = nextCount;
-            prevHashes = await Promise.all(nextHashes);
+            prevHashes = blocks.map((b) => b.cid);
+            prevSummaries = nextSummaries;
             leaf = false;
         } while (prevHashes.length !== 1)
 
         return prevHashes[0];
     }
 
+    /**
+     * Builds a list from a stream of CIDs, producing the same list as create.
+     * Nodes are written as soon as they are complete, so the input does not need to fit in memory.
+     * Time complexity: O(n log(n)), space complexity: O(log(n))
+     * 
+     * @param hashes The sequence of CIDs which we are inserting into the list
+     * @returns The CID of the root of the new list
+     */
+    public async build (hashes:AsyncIterable<CID>|Iterable<CID>) : Promise<CID> {
+        const builder = this._builder();
+        for await (const hash of hashes) {
+            await this._pushItem(builder, hash);
+        }
+        return this._finish(builder);
+    }
+
+    private _builder () {
+        return new RabinBuilder<undefined, S>(
+            (leaf, count, keys, hashes, summaries) => this.serializeNode(leaf, count, hashes, summaries),
+            this.chunker,
+            (level, i) => this._chunkEntry(level, i),
+            (summaries) => this._combineSummaries(summaries));
+    }
+
+    private async _pushItem (builder:RabinBuilder<undefined, S>, hash:CID) {
+        const reducer = this.options.reducer;
+        await builder.push(0, { count: 1, key: undefined, hash, summary: reducer ? await reducer.map(hash, undefined) : undefined });
+    }
+
+    private async _finish (builder:RabinBuilder<undefined, S>) {
+        const result = await builder.finish();
+        if (!result) {
+            return await this.serializeNode(true, [], []);
+        }
+        return result;
+    }
+
+    // appends the items of a list in [lo, hi) to builder, reusing every subtree which does not need to be rechunked
+    private async _pushRange (builder:RabinBuilder<undefined, S>, root:CID, lo:number = 0, hi:number = Infinity) {
+        const cursor = new RabinCursor<undefined, S>(this._reusedSource, root);
+        let index = 0;
+        while (index < hi) {
+            const piece = await cursor.peek();
+            if (!piece) {
+                return;
+            }
+            const { count } = piece.entry;
+            if (index + count <= lo) {
+                cursor.next();
+            } else if (lo <= index && index + count <= hi &&
+                (piece.height === 0 || (piece.closed && builder.aligned(piece.height)))) {
+                await builder.push(piece.height, piece.entry);
+                cursor.next();
+            } else {
+                await cursor.expand();
+                continue;
+            }
+            index += count;
+        }
+    }
+
+    /**
+     * Concatenates two lists.  Only the nodes along the right edge of a and the left edge of b are rebuilt.
+     * Time & space complexity: O(log_B n)
+     * 
+     * @param a The root of the first list
+     * @param b The root of the list which is appended to a
+     * @returns The root of a list with the items of a followed by the items of b
+     */
+    public async concat (a:CID, b:CID) : Promise<CID> {
+        const builder = this._builder();
+        await this._pushRange(builder, a);
+        await this._pushRange(builder, b);
+        return this._finish(builder);
+    }
+
+    /**
+     * Returns the items from lo to hi as a new list, similar to JavaScript's Array.slice()
+     * Time & space complexity: O(log_B n)
+     * 
+     * @param root The root of the list
+     * @param lo The index of the first item, negative indices count from the end
+     * @param hi The index after the last item, negative indices count from the end
+     * @returns The root of a list with the items in [lo, hi)
+     */
+    public async slice (root:CID, lo:number = 0, hi:number = Infinity) : Promise<CID> {
+        if (lo < 0 || hi < 0) {
+            const size = await this.size(root);
+            lo = lo < 0 ? size + lo : lo;
+            hi = hi < 0 ? size + hi : hi;
+        }
+        const builder = this._builder();
+        await this._pushRange(builder, root, Math.max(lo, 0), hi);
+        return this._finish(builder);
+    }
+
+    /**
+     * Overwrites the items starting at start, items past the end of the list are appended
+     * Time & space complexity: O(k + log_B n), where k = number of items
+     * 
+     * @param root The root of the list
+     * @param start The index of the first item to overwrite
+     * @param items The new items
+     * @returns The root of the new list
+     */
+    public async setRange (root:CID, start:number, items:CID[]) : Promise<CID> {
+        if (start < 0 || start > await this.size(root)) {
+            throw new Error('rabin-list: index out of bounds');
+        }
+        const builder = this._builder();
+        await this._pushRange(builder, root, 0, start);
+        for (const hash of items) {
+            await this._pushItem(builder, hash);
+        }
+        await this._pushRange(builder, root, start + items.length);
+        return this._finish(builder);
+    }
+
     /**
      * Returns the element at index
      * Time complexity: O(log_B n)
@@ -154,12 +486,12 @@ export class RabinList {
         const rl = this;
 
         // read in levels of the tree as we are splicing into the tree
-        const levels:RabinListLevel[] = [];
+        const levels:RabinListLevel<S>[] = [];
         {   // scan down bottom of tree and build a stack of level
             let cid = root;
             let ptr = start;
             search_loop: while (true) {
-                const block = await rl.parseNode(cid);
+                const block = await rl._parseReused(cid);
                 // special case: insert into empty tree
                 if (cid === root && block.hashes.length === 0) {
                     return this.create(items);
@@ -171,7 +503,8 @@ export class RabinList {
                             start: i + (ptr === c && block.leaf ? 1 : 0),
                             end: i + 1,
                             count: block.count.slice(),
-                            hashes: block.hashes,
+                            hashes: block.hashes.slice(),
+                            summaries: block.summaries.slice(),
                         });
                         if (block.leaf) {
                             levels.push({
@@ -179,6 +512,7 @@ export class RabinList {
                                 end: 0,
                                 count: items.map(() => 1),
                                 hashes: items,
+                                summaries: await this._summarize(true, items),
                             });
                             break search_loop;
                         } else {
@@ -206,11 +540,12 @@ export class RabinList {
                 }
             }
             const cid = parent.hashes[parent.end++];
-            const node = await rl.parseNode(cid);
+            const node = await rl._parseReused(cid);
             const l = levels[level];
             for (let i = 0; i < node.count.length; ++i) {
                 l.count.push(node.count[i]);
                 l.hashes.push(node.hashes[i]);
+                l.summaries.push(node.summaries[i]);
             }
             return true;
         }
@@ -231,13 +566,14 @@ export class RabinList {
         // now rebuild tree, scanning from bottom up
         for (let i = 0; i < levels.length; ++i) {
             // retrieve parent level
-            let parent:RabinListLevel;
+            let parent:RabinListLevel<S>;
             if (i === levels.length - 1) {
                 parent = {
                     start: 0,
                     end: 0,
                     count: [],
                     hashes: [],
+                    summaries: [],
                 };
                 levels.push(parent);
             } else {
@@ -249,28 +585,38 @@ export class RabinList {
                 const deleteCount = parent.end - parent.start;
                 parent.count.splice(start, deleteCount, ...levels[i].count);
                 parent.hashes.splice(start, deleteCount, ...levels[i].hashes);
+                parent.summaries.splice(start, deleteCount, ...levels[i].summaries);
             }
 
             { // recompute parent node hahes
                 const nextCount:number[] = [];
-                const nextHashes:Promise<CID>[] = [];
+                const nextSummaries:S[] = [];
+                const nextBlocks:Promise<Block<any>>[] = [];
     
                 for(let lo = 0; lo < parent.count.length; ) {
-                    let hi = nextChunk(parent.hashes, lo);
+                    let hi = this.chunk(parent, lo);
                     while (hi < 0) {
                         if (!await extendLevel(i + 1)) {
                             hi = parent.hashes.length;
                             break;
                         }
-                        hi = nextChunk(parent.hashes, lo);
+                        hi = this.chunk(parent, lo);
                     }
                     nextCount.push(sum(parent.count, lo, hi));
-                    nextHashes.push(this.serializeNode(i === 0, parent.count.slice(lo, hi), parent.hashes.slice(lo, hi)));
+                    nextSummaries.push(this._combineSummaries(parent.summaries.slice(lo, hi)));
+                    nextBlocks.push(this._encodeNode(
+                        i === 0,
+                        parent.count.slice(lo, hi),
+                        parent.hashes.slice(lo, hi),
+                        parent.summaries.slice(lo, hi)));
                     lo = hi;
                 }
 
-                parent.hashes = await Promise.all(nextHashes);
+                const blocks = await Promise.all(nextBlocks);
+                await putMany(this.storage, blocks);
+                parent.hashes = blocks.map((b) => b.cid);
                 parent.count = nextCount;
+                parent.summaries = nextSummaries;
             }
 
             // if we are at the top of the tree, terminate
@@ -287,13 +633,25 @@ export class RabinList {
         let result = head.hashes[0];
         while (true) {
             const b = await this.parseNode(result);
-            if (b.hashes.length !== 1) {
+            if (b.leaf || b.hashes.length !== 1) {
                 return result;
             }
             result = b.hashes[0];
         }
     }
 
+    /**
+     * Checks that every node of the list is present and canonical: counts match the size of each child,
+     * leaves are all at the same depth and node boundaries match chunk().
+     * Complexity: O(n)
+     * 
+     * @param root The root of the list
+     * @returns A list of all problems which were found, empty if the list is ok
+     */
+    public async verify (root:CID) : Promise<RabinVerifyError[]> {
+        return verifyTree(this, root);
+    }
+
     /**
      * Returns the length of the list
      * Complexity: O(1)
@@ -306,6 +664,32 @@ export class RabinList {
         return sum(node.count, 0, node.count.length);
     }
 
+    /**
+     * Combines the summaries of all items in a range, the list must have a reducer (see reducer.ts)
+     * Complexity: O(log_B n)
+     * 
+     * @param root The root of the list
+     * @param options The range, same as for scan
+     * @returns The summary of the items scan would yield for the range
+     */
+    public async reduce (root:CID, options?:RabinListRangeSpec) : Promise<S> {
+        const reducer = this.options.reducer;
+        if (!reducer) {
+            throw new Error('rabin-list: list has no reducer');
+        }
+        options = options || {};
+        let start = Math.max(options.lo || 0, 0);
+        let end = Math.min('hi' in options ? options.hi : Infinity, await this.size(root));
+        if ('limit' in options) {
+            if (options.reverse) {
+                start = Math.max(start, end - options.limit);
+            } else {
+                end = Math.min(end, start + options.limit);
+            }
+        }
+        return reduceRange(this, reducer, root, start, end);
+    }
+
     /**
      * Async generator, scans the array from start to end
      * Complexity: O(k + log(n))  where k = end - start
@@ -314,13 +698,25 @@ export class RabinList {
      * @param options (optional) start index of the region to scan (default is 0)
      * @yields A sequence of array elements in the tree in the range start to end
      */
-    public async* scan(root:CID, options?:RabinListRangeSpec) {
+    public async* scan(root:CID, _options?:RabinListRangeSpec) {
+        const options = _options || {};
         const start = Math.max('lo' in options ? options.lo : 0, 0);
         const end = 'hi' in options ? options.hi : Infinity;
         let count = Math.min(end - start, 'limit' in options ? options.limit : Infinity);
         if (count < 0) {
             return;
         }
+        let first = start;
+        if (options.reverse) {
+            first = Math.min(end, await this.size(root)) - 1;
+            count = Math.min(count, first + 1 - start);
+            if (count <= 0) {
+                return;
+            }
+        }
+
+        const prefetch = new NodePrefetcher(this, this.options.prefetch || 0);
+        const step = options.reverse ? -1 : 1;
 
         // first do a search on the start of the array to initialize the stack
         const stack:{
@@ -328,9 +724,9 @@ export class RabinList {
             hashes:CID[];
         }[] = [];
         let cid = root;
-        let ptr = start;
+        let ptr = first;
         search_loop: while (true) {
-            const block = await this.parseNode(cid);
+            const block = await prefetch.get(cid);
             for (let i = 0; i < block.count.length; ++i) {
                 const count = block.count[i];
                 if (ptr < count) {
@@ -342,6 +738,7 @@ export class RabinList {
                         break search_loop;
                     } else {
                         cid = block.hashes[i];
+                        prefetch.ahead(block.hashes, i + step, step);
                         continue search_loop;
                     }
                 }
@@ -354,10 +751,10 @@ export class RabinList {
         while (count > 0) {            
             // scan leaf node items
             const top = stack.pop();
-            const n = Math.min(count, top.hashes.length - top.index)
-            for (let i = 0, ptr = top.index; i < n; ++i) {
+            const n = Math.min(count, options.reverse ? top.index + 1 : top.hashes.length - top.index)
+            for (let i = 0, ptr = top.index; i < n; ++i, ptr += step) {
                 // TODO: would be more efficient to yield hashes in batches instead of one-by-one
-                yield top.hashes[ptr++];
+                yield top.hashes[ptr];
             }
 
             // decrement count and terminate if necessary
@@ -369,8 +766,8 @@ export class RabinList {
             // walk to next node in stack
             while (true) {
                 const top = stack[stack.length - 1];
-                top.index += 1;
-                if (top.index >= top.hashes.length) {
+                top.index += step;
+                if (top.index < 0 || top.index >= top.hashes.length) {
                     // if we are at the end of this node's sequence then pop it from the stack
                     stack.pop();
                     if (stack.length === 0) {
@@ -379,16 +776,19 @@ export class RabinList {
                 } else {
                     // otherwise we pop hashes off recursively
                     let cid = top.hashes[top.index];
+                    prefetch.ahead(top.hashes, top.index + step, step);
                     while (true) {
-                        const block = await this.parseNode(cid);
+                        const block = await prefetch.get(cid);
+                        const index = options.reverse ? block.hashes.length - 1 : 0;
                         stack.push({
-                            index: 0,
+                            index,
                             hashes: block.hashes,
                         });
                         if (block.leaf) {
                             break;
                         } else {
-                            cid = block.hashes[0];
+                            cid = block.hashes[index];
+                            prefetch.ahead(block.hashes, index + step, step);
                         }
                     }
                     break;
@@ -396,4 +796,48 @@ export class RabinList {
             }
         }
     }
+
+    /**
+     * Scans a section of the list and creates a proof of the result, which can be checked with verifyListRangeProof.
+     * Complexity: O(k + log(n))  where k = end - start
+     * 
+     * @param root The root node of the list
+     * @param options (optional) Range of the list to scan, same as scan
+     * @returns The items in the range, and the blocks needed to check that no item was left out
+     */
+    public async proveRange (root:CID, options?:RabinListRangeSpec) : Promise<{ items:CID[], proof:RabinProof }> {
+        // no cache here, otherwise we would miss blocks
+        const storage = new RecordingStorage(this.storage);
+        const list = new RabinList(this.hasher, this.codec, storage);
+        const items:CID[] = [];
+        for await (const item of list.scan(root, options)) {
+            items.push(item);
+        }
+        return { items, proof: storage.proof() };
+    }
+}
+
+/**
+ * Checks a proof created by RabinList.proveRange, without access to the rest of the list
+ * 
+ * @param root The trusted CID of the root of the list
+ * @param options The range which was scanned
+ * @param proof The proof
+ * @param spec The hasher and codec used by the list
+ * @returns All items in the range, clients should use these instead of the ones sent with the proof.  Throws if the proof is not valid.
+ */
+export async function verifyListRangeProof (root:CID, options:RabinListRangeSpec|undefined, proof:RabinProof, spec:{
+    hasher:Hasher,
+    codec:Codec,
+}) : Promise<CID[]> {
+    const storage = new ProofStorage(spec.hasher, spec.codec);
+    for (const bytes of proof) {
+        await storage.add(bytes);
+    }
+    const list = new RabinList(spec.hasher, spec.codec, storage);
+    const items:CID[] = [];
+    for await (const item of list.scan(root, options)) {
+        items.push(item);
+    }
+    return items;
 }
@@ -0,0 +1,60 @@
+// Summaries generalize the count that every node stores for each of its children.  A reducer maps each entry of a tree
+// to a summary and combines summaries of consecutive entries, e.g. the sum of a numeric field, the min/max of the keys
+// or a bloom filter.  Each node stores the summary of every child next to its count, so a range can be reduced from
+// the O(log n) summaries along its edges instead of visiting every entry.
+//
+// Summaries are stored in the nodes, so they must be plain values that the codec of the tree can encode, and a tree
+// must be built with the reducer from the start.  The name of the reducer is recorded in every node so that verify can
+// find nodes which were built with a different reducer or none at all, and updates refuse to reuse them.
+
+import { CID } from './multiformat';
+import { RabinNodeSource } from './cursor';
+
+export interface RabinReducer<K, S> {
+    // recorded in every node, change it whenever the summaries change
+    name:string;
+
+    // summary of a single entry, can read the value from storage.  key is undefined for lists
+    map(value:CID, key:K) : S|Promise<S>;
+
+    // summary of a sequence of consecutive entries, in order.  must be associative and return the identity for []
+    combine(summaries:S[]) : S;
+}
+
+/**
+ * Combines the summaries of the entries in [start, end) of a tree, using the stored summaries of every subtree which
+ * is entirely inside the range.  Only the nodes along the two edges of the range are read.
+ *
+ * @param source The tree
+ * @param reducer The reducer the tree was built with
+ * @param root The root of the tree
+ * @param start The index of the first entry
+ * @param end The index after the last entry
+ * @returns The summary of the range
+ */
+export async function reduceRange<S> (source:RabinNodeSource<any, S>, reducer:RabinReducer<any, S>, root:CID, start:number, end:number) : Promise<S> {
+    const summaries:S[] = [];
+    async function visit (cid:CID, offset:number) {
+        const node = await source.parseNode(cid);
+        if (node.reducer !== reducer.name) {
+            throw new Error('rabin-reducer: node ' + cid.toString() + ' has no summaries for ' + reducer.name);
+        }
+        for (let i = 0; i < node.hashes.length && offset < end; ++i) {
+            const lo = offset;
+            offset += node.count[i];
+            if (offset <= start) {
+                continue;
+            }
+            if (start <= lo && offset <= end) {
+                summaries.push(node.summaries[i]);
+            } else {
+                // entries of a leaf have count 1, so only internal nodes are partially covered
+                await visit(node.hashes[i], lo);
+            }
+        }
+    }
+    if (start < end) {
+        await visit(root, 0);
+    }
+    return reducer.combine(summaries);
+}
@@ -4,6 +4,7 @@ import { RabinList } from '../rabin-list';
 
 const _sha2 = (<any>require)('multiformats/hashes/sha2');
 const _json = (<any>require)('multiformats/codecs/json');
+const _dagCbor = (<any>require)('@ipld/dag-cbor');
 
 export class MemoryStorage implements Storage {
     private _blocks = new Map<string, Block<any>>();
@@ -15,11 +16,27 @@ export class MemoryStorage implements Storage {
     public async get<T>(cid:CID) : Promise<Block<T>> {
         return this._blocks.get(cid.toString());
     }
+
+    public async delete(cid:CID) {
+        this._blocks.delete(cid.toString());
+    }
+
+    public async* keys() {
+        const blocks = Array.from(this._blocks.values());
+        for (let i = 0; i < blocks.length; ++i) {
+            yield blocks[i].cid;
+        }
+    }
+
+    public get size () {
+        return this._blocks.size;
+    }
 }
 
 export const sha256Hasher:Hasher = _sha2.sha256;
 export const sha512Hasher:Hasher = _sha2.sha512;
 export const jsonCodec:Codec = _json;
+export const dagCborCodec:Codec = _dagCbor;
 
 export const DEFAULT_FORMATS = {
     hasher: sha256Hasher,
@@ -27,6 +44,31 @@ export const DEFAULT_FORMATS = {
     storage: new MemoryStorage(),
 };
 
+// counts the blocks read from another storage
+export class CountingStorage implements Storage {
+    public reads = 0;
+
+    constructor (public storage:Storage) {}
+
+    public async put<T>(block:Block<T>) {
+        return this.storage.put(block);
+    }
+
+    public async get<T>(cid:CID) : Promise<Block<T>> {
+        this.reads += 1;
+        return this.storage.get<T>(cid);
+    }
+}
+
+export function compare (a:string, b:string) {
+    if (a < b) {
+        return -1;
+    } else if (a === b) {
+        return 0;
+    }
+    return 1;
+}
+
 export async function encodeJSON (config:{
     hasher: Hasher,
     codec: Codec,
@@ -42,6 +84,22 @@ export async function encodeJSON (config:{
     return block.cid;
 }
 
+// the keys prefix + i for i < n in sorted order, each mapped to a stored block holding the key
+export async function keyFixture (n:number, prefix:string = 'ppp', formats = DEFAULT_FORMATS) {
+    const data:string[] = [];
+    for (let i = 0; i < n; ++i) {
+        data.push(prefix + i);
+    }
+    data.sort();
+    const dataCIDs = await Promise.all(data.map((value) => encodeJSON({
+        value,
+        ...formats
+    })));
+    const map = new Map<string, CID>();
+    dataCIDs.forEach((cid, k) => map.set(data[k], cid));
+    return { data, dataCIDs, map };
+}
+
 export async function parseJSON (config:{
     hasher: Hasher,
     codec: Codec,
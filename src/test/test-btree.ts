@@ -1,7 +1,9 @@
 import tape = require('tape');
-import { CID } from '../multiformat';
-import { RabinBTree } from '../rabin-b-tree';
-import { DEFAULT_FORMATS, encodeJSON, inspectBTree } from "./helpers";
+import { RabinBTree, RabinBTreeOp, RabinBTreeRangeSpec, verifyProof, verifyRangeProof } from '../rabin-b-tree';
+import { NODE_FORMAT_V0, NODE_FORMAT_V1 } from '../format';
+import { DEFAULT_CHUNKER } from '../chunk';
+import { asCID, Block, CID, encode } from '../multiformat';
+import { CountingStorage, dagCborCodec, DEFAULT_FORMATS, encodeJSON, inspectBTree, keyFixture } from "./helpers";
 
 const BTREE = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, (a, b) => {
     if (a < b) {
@@ -27,6 +29,31 @@ tape('empty tree', async (t) => {
     t.end();
 });
 
+tape('single key', async (t) => {
+    const cids = await Promise.all([...Array(500)].map((_, i) => encodeJSON({
+        value: 'single' + i,
+        ...DEFAULT_FORMATS
+    })));
+    const single = await BTREE.create(new Map([ [ 'key0', cids[0] ] ]));
+    const node = await BTREE.parseNode(single);
+    t.ok(node.leaf, 'root is a leaf');
+    t.same(node.keys, [ 'key0' ], 'root has the key');
+    t.equals((await BTREE.eq(single, 'key0')).toString(), cids[0].toString(), 'lookup');
+
+    // removing all but one key collapses the tree into a single leaf, but not into the value
+    const map = new Map<string, CID>();
+    cids.forEach((cid, i) => map.set('key' + i, cid));
+    let root = await BTREE.create(map);
+    t.equals((await BTREE.removeRange(root, { lo: 1 })).toString(), single.toString(), 'remove range down to one key');
+    for (let i = 1; i < cids.length; ++i) {
+        root = await BTREE.remove(root, 'key' + i);
+    }
+    t.equals(root.toString(), single.toString(), 'remove down to one key');
+    t.equals((await BTREE.upsert(await BTREE.create(new Map()), 'key0', cids[0])).toString(), single.toString(), 'upsert into empty tree');
+
+    t.end();
+});
+
 tape('query test', async (t) => {
     const N = 1e4;
     const T = 1e2;
@@ -103,6 +130,72 @@ tape('scan test', async (t) => {
     await testScan(0, Infinity);
     await testScan(500, 3000);
 
+    async function testKeyScan (options:RabinBTreeRangeSpec<string>) {
+        const expected = data.filter((key, i) => {
+            return (!('lo' in options) || i >= options.lo) &&
+                (!('hi' in options) || i < options.hi) &&
+                (!('lt' in options) || key > options.lt) &&
+                (!('le' in options) || key >= options.le) &&
+                (!('gt' in options) || key < options.gt) &&
+                (!('ge' in options) || key <= options.ge);
+        });
+        if (options.reverse) {
+            expected.reverse();
+        }
+        expected.splice('limit' in options ? options.limit : Infinity);
+        const actual:string[] = [];
+        for await (const { key } of BTREE.scan(root, options)) {
+            actual.push(key);
+        }
+        t.same(actual, expected, 'key scan ' + JSON.stringify(options));
+        t.equals(await BTREE.countRange(root, options), expected.length, 'count ' + JSON.stringify(options));
+    }
+
+    await testKeyScan({ le: 'ppp5000', gt: 'ppp6000' });
+    await testKeyScan({ lt: 'ppp5000', ge: 'ppp6000' });
+    await testKeyScan({ le: 'ppp5000x', gt: 'ppp6' });
+    await testKeyScan({ le: 'ppp5', limit: 100 });
+    await testKeyScan({ lo: 20, gt: 'ppp2' });
+    await testKeyScan({ lt: 'ppp1', hi: 3000, limit: 1500 });
+    await testKeyScan({ gt: 'a' });
+    await testKeyScan({ lt: 'z' });
+    await testKeyScan({ le: 'ppp7', ge: 'ppp3' });
+    await testKeyScan({ reverse: true });
+    await testKeyScan({ reverse: true, limit: 10 });
+    await testKeyScan({ le: 'ppp5000', gt: 'ppp6000', reverse: true });
+    await testKeyScan({ lt: 'ppp1', hi: 3000, limit: 1500, reverse: true });
+    await testKeyScan({ lo: 20, gt: 'ppp2', reverse: true });
+    await testKeyScan({ gt: 'a', reverse: true });
+    await testKeyScan({ le: 'ppp7', ge: 'ppp3', reverse: true });
+    await testKeyScan({});
+
+    for (const i of [ 0, 1, 777, 5000, N - 1 ]) {
+        t.equals(await BTREE.indexOf(root, data[i]), i, 'index of ' + data[i]);
+        t.equals(await BTREE.indexOf(root, data[i] + '\0'), i + 1, 'insertion point after ' + data[i]);
+    }
+    t.equals(await BTREE.indexOf(root, 'a'), 0, 'insertion point before first key');
+    t.equals(await BTREE.indexOf(root, 'z'), N, 'insertion point after last key');
+    t.equals(await BTREE.indexOf(await BTREE.create(new Map()), 'a'), 0, 'index in empty tree');
+
+    function entry (i:number) {
+        return i < 0 || i >= N ? null : { key: data[i], value: dataCIDs[i].toString(), index: i };
+    }
+    async function nearest (query:Promise<{ key:string, value:CID, index:number }|null>) {
+        const result = await query;
+        return result && { ...result, value: result.value.toString() };
+    }
+    for (const i of [ 0, 1, 777, N - 1 ]) {
+        t.same(await nearest(BTREE.floor(root, data[i])), entry(i), 'floor ' + data[i]);
+        t.same(await nearest(BTREE.ceiling(root, data[i])), entry(i), 'ceiling ' + data[i]);
+        t.same(await nearest(BTREE.lower(root, data[i])), entry(i - 1), 'lower ' + data[i]);
+        t.same(await nearest(BTREE.higher(root, data[i])), entry(i + 1), 'higher ' + data[i]);
+        t.same(await nearest(BTREE.floor(root, data[i] + '\0')), entry(i), 'floor after ' + data[i]);
+        t.same(await nearest(BTREE.ceiling(root, data[i] + '\0')), entry(i + 1), 'ceiling after ' + data[i]);
+    }
+    t.equals(await BTREE.floor(root, 'a'), null, 'no floor before first key');
+    t.equals(await BTREE.ceiling(root, 'z'), null, 'no ceiling after last key');
+    t.equals(await BTREE.higher(await BTREE.create(new Map()), 'a'), null, 'nothing in empty tree');
+
     t.end();
 });
 
@@ -159,3 +252,758 @@ tape('upsert/remove test', async (t) => {
 
     t.end();
 });
+
+tape('diff test', async (t) => {
+    const N = 1e4;
+
+    const { data, dataCIDs, map } = await keyFixture(N);
+    const root = await BTREE.create(map);
+
+    async function collect (a:CID, b:CID) {
+        const result:string[] = [];
+        for await (const { key, oldValue, newValue } of BTREE.diff(a, b)) {
+            result.push(`${key}:${oldValue}:${newValue}`);
+        }
+        return result;
+    }
+
+    t.same(await collect(root, root), [], 'no changes');
+
+    // apply a few random changes and check that diff reports exactly those
+    const nextMap = new Map(map);
+    const expected = new Map<string, string>();
+    for (let i = 0; i < 20; ++i) {
+        const idx = (Math.random() * N) | 0;
+        const key = data[idx];
+        if (expected.has(key)) {
+            continue;
+        }
+        if (i % 3 === 0) {
+            nextMap.delete(key);
+            expected.set(key, `${key}:${map.get(key)}:null`);
+        } else {
+            const value = dataCIDs[(idx + 1) % N];
+            nextMap.set(key, value);
+            expected.set(key, `${key}:${map.get(key)}:${value}`);
+        }
+        const newKey = 'new:' + i;
+        nextMap.set(newKey, dataCIDs[idx]);
+        expected.set(newKey, `${newKey}:null:${dataCIDs[idx]}`);
+    }
+    const nextRoot = await BTREE.create(nextMap);
+    const keys = Array.from(expected.keys()).sort();
+
+    t.same(await collect(root, nextRoot), keys.map((k) => expected.get(k)), 'diff matches changes');
+
+    const empty = await BTREE.create(new Map());
+    t.equals((await collect(empty, root)).length, N, 'diff from empty tree adds everything');
+    t.equals((await collect(root, empty)).length, N, 'diff to empty tree removes everything');
+
+    // only the nodes along the path to a single change are read
+    const storage = new CountingStorage(DEFAULT_FORMATS.storage);
+    const counted = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, storage, BTREE.compare);
+    const changed = await BTREE.upsert(root, data[N >> 1], dataCIDs[0]);
+    t.same(await collect(root, changed), [ `${data[N >> 1]}:${dataCIDs[N >> 1]}:${dataCIDs[0]}` ], 'diff single change');
+    for await (const _ of counted.diff(root, changed)) {
+        // only count the reads
+    }
+    t.ok(storage.reads < 20, `read ${storage.reads} nodes`);
+
+    t.end();
+});
+
+tape('merge test', async (t) => {
+    const N = 1e4;
+
+    const { data, dataCIDs, map: baseMap } = await keyFixture(N);
+
+    // both sides update/remove disjoint keys, and then fight over a few shared ones
+    const oursMap = new Map(baseMap);
+    const theirsMap = new Map(baseMap);
+    const expectedMap = new Map(baseMap);
+    for (let i = 0; i < 50; ++i) {
+        const key = data[i * 100];
+        oursMap.set(key, dataCIDs[i]);
+        expectedMap.set(key, dataCIDs[i]);
+    }
+    for (let i = 0; i < 50; ++i) {
+        const key = data[i * 100 + 50];
+        theirsMap.delete(key);
+        expectedMap.delete(key);
+        theirsMap.set('theirs:' + i, dataCIDs[i]);
+        expectedMap.set('theirs:' + i, dataCIDs[i]);
+    }
+    const conflicts = new Set<string>();
+    for (let i = 0; i < 10; ++i) {
+        const key = data[i * 100 + 7];
+        conflicts.add(key);
+        oursMap.set(key, dataCIDs[0]);
+        theirsMap.set(key, dataCIDs[1]);
+        expectedMap.set(key, dataCIDs[1]);
+    }
+
+    const [ base, ours, theirs, expected ] = await Promise.all([ baseMap, oursMap, theirsMap, expectedMap ].map((m) => BTREE.create(m)));
+
+    const seen = new Set<string>();
+    const merged = await BTREE.merge(base, ours, theirs, (key, baseValue, ourValue, theirValue) => {
+        seen.add(key);
+        t.equals(baseValue.toString(), baseMap.get(key).toString(), 'base value for ' + key);
+        return theirValue;
+    });
+    t.equals(merged.toString(), expected.toString(), 'merged tree');
+    t.same(Array.from(seen).sort(), Array.from(conflicts).sort(), 'resolve called for conflicts');
+
+    t.equals((await BTREE.merge(base, base, theirs, () => null)).toString(), theirs.toString(), 'fast forward');
+    t.equals((await BTREE.merge(base, ours, base, () => null)).toString(), ours.toString(), 'nothing to merge');
+
+    t.end();
+});
+
+tape('apply test', async (t) => {
+    const N = 1e4;
+
+    const { data, dataCIDs, map } = await keyFixture(N);
+    const root = await BTREE.create(map);
+    const empty = await BTREE.create(new Map());
+
+    async function testApply (base:CID, baseMap:Map<string, CID>, ops:RabinBTreeOp<string>[], msg:string) {
+        const expectedMap = new Map(baseMap);
+        for (const op of ops) {
+            if (op.type === 'put') {
+                expectedMap.set(op.key, op.value);
+            } else {
+                expectedMap.delete(op.key);
+            }
+        }
+        const expected = await BTREE.create(expectedMap);
+        const actual = await BTREE.apply(base, ops);
+        t.equals(actual.toString(), expected.toString(), msg);
+    }
+
+    await testApply(empty, new Map(), data.map((key, i) => ({ type: 'put', key, value: dataCIDs[i] })), 'bulk insert into empty tree');
+    await testApply(root, map, data.map((key) => ({ type: 'del', key })), 'delete everything');
+    await testApply(root, map, data.slice(1).map((key) => ({ type: 'del', key })), 'delete all but one');
+    await testApply(root, map, [ { type: 'put', key: 'zzz', value: dataCIDs[0] } ], 'append');
+    await testApply(root, map, [ { type: 'put', key: 'aaa', value: dataCIDs[0] } ], 'prepend');
+
+    for (let i = 0; i < 20; ++i) {
+        const ops:RabinBTreeOp<string>[] = [];
+        const k = (Math.random() * 500) | 0;
+        for (let j = 0; j < k; ++j) {
+            const idx = (Math.random() * N) | 0;
+            const r = Math.random();
+            if (r < 0.3) {
+                ops.push({ type: 'del', key: data[idx] });
+            } else if (r < 0.6) {
+                ops.push({ type: 'put', key: data[idx], value: dataCIDs[(idx * 7) % N] });
+            } else {
+                ops.push({ type: 'put', key: 'new:' + idx, value: dataCIDs[idx] });
+            }
+        }
+        await testApply(root, map, ops, `random batch of ${k} operations`);
+    }
+
+    t.end();
+});
+
+tape('remove range test', async (t) => {
+    const N = 1e4;
+
+    const { data, dataCIDs, map } = await keyFixture(N);
+    const root = await BTREE.create(map);
+
+    async function testRemoveRange (options:RabinBTreeRangeSpec<string>, tree = BTREE, treeRoot = root, treeMap = map) {
+        const removed = new Set<string>();
+        for await (const { key } of tree.scan(treeRoot, options)) {
+            removed.add(key);
+        }
+        const expectedMap = new Map(treeMap);
+        removed.forEach((key) => expectedMap.delete(key));
+        const expected = await tree.create(expectedMap);
+        const actual = await tree.removeRange(treeRoot, options);
+        t.equals(actual.toString(), expected.toString(), 'remove range ' + JSON.stringify(options));
+    }
+
+    await testRemoveRange({ le: 'ppp2', gt: 'ppp8' });
+    await testRemoveRange({ lo: 1, hi: N - 1 });
+    await testRemoveRange({ lo: 0, hi: 1 });
+    await testRemoveRange({ lt: 'ppp5000', ge: 'ppp5010' });
+    await testRemoveRange({ gt: 'ppp3' });
+    await testRemoveRange({ le: 'ppp3' });
+    await testRemoveRange({ lo: 5000, limit: 1 });
+    await testRemoveRange({ gt: 'ppp9', limit: 100, reverse: true });
+    await testRemoveRange({});
+    await testRemoveRange({ le: 'zzz' });
+
+    // with a byte limit, keys of different lengths make the limit decide most boundaries
+    const limited = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, BTREE.compare, { chunker: { maxBytes: 1 << 13 } });
+    const paddedMap = new Map<string, CID>();
+    data.slice(0, 2000).forEach((key, i) => paddedMap.set(key + '.'.repeat((i * 7919) % 500), dataCIDs[i]));
+    const limitedRoot = await limited.create(paddedMap);
+    for (const options of [ { lo: 100, hi: 1500 }, { lo: 0, hi: 1 }, { lo: 1000, limit: 1 }, { lt: 'ppp1', ge: 'ppp1005' }, { le: 'ppp105', limit: 30, reverse: true } ]) {
+        await testRemoveRange(options, limited, limitedRoot, paddedMap);
+    }
+    // ranges which start a leaf, so the end of the leaf before them must not depend on the removed entries
+    let level = [ limitedRoot ];
+    let leaves = await Promise.all(level.map((cid) => limited.parseNode(cid)));
+    while (!leaves[0].leaf) {
+        level = [].concat(...leaves.map((node) => node.hashes));
+        leaves = await Promise.all(level.map((cid) => limited.parseNode(cid)));
+    }
+    for (let i = 0, offset = 0; i < leaves.length - 1; offset += leaves[i++].hashes.length) {
+        if (i % 10 === 1) {
+            await testRemoveRange({ lo: offset, hi: offset + 2 }, limited, limitedRoot, paddedMap);
+        }
+    }
+
+    // only the edges of the range are read
+    const storage = new CountingStorage(DEFAULT_FORMATS.storage);
+    const counted = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, storage, BTREE.compare);
+    await counted.removeRange(root, { lo: 100, hi: N - 100 });
+    t.ok(storage.reads < 30, `read ${storage.reads} nodes`);
+
+    t.end();
+});
+
+tape('split/join test', async (t) => {
+    const N = 1e4;
+
+    const { data, dataCIDs, map } = await keyFixture(N);
+    const root = await BTREE.create(map);
+    const empty = await BTREE.create(new Map());
+
+    function subtree (lo:number, hi:number) {
+        const m = new Map<string, CID>();
+        for (let i = lo; i < hi; ++i) {
+            m.set(data[i], dataCIDs[i]);
+        }
+        return BTREE.create(m);
+    }
+
+    for (const i of [ 0, 1, 255, 5000, N - 1 ]) {
+        const [left, right] = await BTREE.split(root, data[i]);
+        t.equals(left.toString(), (await subtree(0, i)).toString(), 'left of ' + data[i]);
+        t.equals(right.toString(), (await subtree(i, N)).toString(), 'right of ' + data[i]);
+        t.equals((await BTREE.join(left, right)).toString(), root.toString(), 'join at ' + data[i]);
+    }
+
+    const [left, right] = await BTREE.split(root, 'zzz');
+    t.equals(left.toString(), root.toString(), 'split after last key');
+    t.equals(right.toString(), empty.toString(), 'nothing after last key');
+    t.equals((await BTREE.join(empty, root)).toString(), root.toString(), 'join with empty tree');
+
+    const [a, b] = await Promise.all([ subtree(0, 3000), subtree(3000, 7000) ]);
+    const c = await subtree(7000, N);
+    t.equals((await BTREE.join(await BTREE.join(a, b), c)).toString(), root.toString(), 'join three trees');
+    try {
+        await BTREE.join(b, a);
+        t.fail('joining overlapping trees should throw');
+    } catch (e) {
+        t.pass('joining overlapping trees throws');
+    }
+
+    t.end();
+});
+
+tape('set operations test', async (t) => {
+    const N = 1e4;
+
+    const { data, dataCIDs } = await keyFixture(N);
+    const empty = await BTREE.create(new Map());
+
+    function pick (filter:(i:number) => boolean, value:(i:number) => CID = (i) => dataCIDs[i]) {
+        const m = new Map<string, CID>();
+        for (let i = 0; i < N; ++i) {
+            if (filter(i)) {
+                m.set(data[i], value(i));
+            }
+        }
+        return m;
+    }
+
+    async function testSetOps (msg:string, aMap:Map<string, CID>, bMap:Map<string, CID>) {
+        const [ a, b ] = await Promise.all([ BTREE.create(aMap), BTREE.create(bMap) ]);
+
+        // prefer the value of b for keys in both trees
+        const combine = (key:string, x:CID, y:CID) => y;
+        const unionMap = new Map(aMap);
+        bMap.forEach((value, key) => unionMap.set(key, value));
+        const intersectionMap = new Map<string, CID>();
+        const differenceMap = new Map(aMap);
+        bMap.forEach((value, key) => {
+            if (aMap.has(key)) {
+                intersectionMap.set(key, value);
+            }
+            differenceMap.delete(key);
+        });
+
+        const [ union, intersection, difference ] = await Promise.all([ unionMap, intersectionMap, differenceMap ].map((m) => BTREE.create(m)));
+        t.equals((await BTREE.union(a, b, combine)).toString(), union.toString(), 'union ' + msg);
+        t.equals((await BTREE.intersection(a, b, combine)).toString(), intersection.toString(), 'intersection ' + msg);
+        t.equals((await BTREE.difference(a, b)).toString(), difference.toString(), 'difference ' + msg);
+    }
+
+    const all = pick(() => true);
+    await testSetOps('same tree', all, all);
+    await testSetOps('with empty tree', all, new Map());
+    await testSetOps('empty tree with', new Map(), all);
+    await testSetOps('halves', pick((i) => i < 5000), pick((i) => i >= 5000));
+    await testSetOps('overlapping ranges', pick((i) => i < 7000), pick((i) => i >= 3000));
+    await testSetOps('interleaved', pick((i) => (i & 1) === 0), pick((i) => i % 3 === 0));
+    await testSetOps('few changes', all, pick((i) => i % 1000 !== 7, (i) => dataCIDs[i % 500 === 0 ? 0 : i]));
+    await testSetOps('nested', pick((i) => i >= 2000 && i < 2100), all);
+
+    t.equals((await BTREE.intersection(await BTREE.create(pick((i) => i < 10)), await BTREE.create(pick((i) => i >= 10)))).toString(),
+        empty.toString(), 'disjoint intersection is empty');
+    const conflicts:string[] = [];
+    await BTREE.union(await BTREE.create(pick((i) => i < 10)), await BTREE.create(pick((i) => i >= 5, () => dataCIDs[0])), (key, x, y) => {
+        conflicts.push(key);
+        return x;
+    });
+    t.same(conflicts, data.slice(5, 10), 'combine is only called for keys with different values');
+
+    // subtrees in disjoint ranges are not read
+    const storage = new CountingStorage(DEFAULT_FORMATS.storage);
+    const counted = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, storage, BTREE.compare);
+    const [ lower, upper ] = await Promise.all([ BTREE.create(pick((i) => i < 5000)), BTREE.create(pick((i) => i >= 5000)) ]);
+    await counted.union(lower, upper);
+    t.ok(storage.reads < 30, `read ${storage.reads} nodes`);
+
+    t.end();
+});
+
+tape('build test', async (t) => {
+    const N = 1e4;
+
+    const { data, dataCIDs } = await keyFixture(N);
+
+    async function* stream (n:number) {
+        for (let i = 0; i < n; ++i) {
+            yield { key: data[i], value: dataCIDs[i] };
+        }
+    }
+
+    for (const n of [ 0, 1, 100, N ]) {
+        const map = new Map<string, CID>();
+        for (let i = 0; i < n; ++i) {
+            map.set(data[i], dataCIDs[i]);
+        }
+        const expected = await BTREE.create(map);
+        const actual = await BTREE.build(stream(n));
+        t.equals(actual.toString(), expected.toString(), 'build ' + n + ' entries');
+    }
+
+    try {
+        await BTREE.build([ { key: 'b', value: dataCIDs[0] }, { key: 'a', value: dataCIDs[1] } ]);
+        t.fail('unsorted keys should throw');
+    } catch (e) {
+        t.pass('unsorted keys throw');
+    }
+
+    t.end();
+});
+
+tape('link format', async (t) => {
+    const compare = BTREE.compare;
+    const legacy = new RabinBTree<string>(DEFAULT_FORMATS.hasher, dagCborCodec, DEFAULT_FORMATS.storage, compare, { format: NODE_FORMAT_V0 });
+    const linked = new RabinBTree<string>(DEFAULT_FORMATS.hasher, dagCborCodec, DEFAULT_FORMATS.storage, compare);
+
+    const { data, dataCIDs, map } = await keyFixture(1000);
+
+    const root = await linked.create(map);
+    const block:Block<any> = await DEFAULT_FORMATS.storage.get(root);
+    t.equals(block.value.v, 1, 'root uses new format');
+    t.ok(block.value.links.every((l) => asCID(l)), 'children are native links');
+
+    // new trees can read and update old trees
+    const oldRoot = await legacy.create(map);
+    const oldBlock:Block<any> = await DEFAULT_FORMATS.storage.get(oldRoot);
+    t.ok(Array.isArray(oldBlock.value), 'legacy tree uses old format');
+    for (let i = 0; i < data.length; i += 37) {
+        t.equals((await linked.eq(oldRoot, data[i])).toString(), dataCIDs[i].toString(), 'read legacy tree ' + data[i]);
+    }
+    const updated = await linked.upsert(oldRoot, 'new', dataCIDs[0]);
+    t.equals((await linked.eq(updated, 'new')).toString(), dataCIDs[0].toString(), 'update legacy tree');
+    t.equals(await linked.size(updated), data.length + 1, 'size after update');
+
+    t.end();
+});
+
+tape('proof test', async (t) => {
+    const N = 1e4;
+
+    const { data, dataCIDs, map } = await keyFixture(N);
+    const root = await BTREE.create(map);
+    const spec = { hasher: DEFAULT_FORMATS.hasher, codec: DEFAULT_FORMATS.codec, compare: BTREE.compare };
+
+    for (let i = 0; i < 20; ++i) {
+        const idx = (Math.random() * N) | 0;
+        const proof = await BTREE.prove(root, data[idx]);
+        t.ok(proof.length <= 4, 'proof is a single path');
+        const value = await verifyProof(root, data[idx], proof, spec);
+        t.equals(value.toString(), dataCIDs[idx].toString(), 'inclusion ' + data[idx]);
+    }
+
+    for (const key of [ 'aaa', 'ppp5000x', 'zzz' ]) {
+        const proof = await BTREE.prove(root, key);
+        t.equals(await verifyProof(root, key, proof, spec), null, 'non-inclusion ' + key);
+    }
+
+    const proof = await BTREE.prove(root, data[10]);
+    try {
+        await verifyProof(root, data[10], proof.slice(0, proof.length - 1), spec);
+        t.fail('incomplete proof should throw');
+    } catch (e) {
+        t.pass('incomplete proof throws');
+    }
+    try {
+        await verifyProof(root, data[10], proof.slice(1), spec);
+        t.fail('proof without root should throw');
+    } catch (e) {
+        t.pass('proof without root throws');
+    }
+
+    t.end();
+});
+
+tape('range proof test', async (t) => {
+    const N = 1e4;
+
+    const { data, dataCIDs, map } = await keyFixture(N);
+    const root = await BTREE.create(map);
+    const spec = { hasher: DEFAULT_FORMATS.hasher, codec: DEFAULT_FORMATS.codec, compare: BTREE.compare };
+
+    const ranges:RabinBTreeRangeSpec<string>[] = [
+        { lo: 100, hi: 300 },
+        { le: 'ppp5000', gt: 'ppp5500' },
+        { lt: 'ppp9', limit: 50 },
+        { le: 'zzz' },
+        { gt: 'ppp5', limit: 50, reverse: true },
+    ];
+    for (const range of ranges) {
+        const { entries, proof } = await BTREE.proveRange(root, range);
+        const verified = await verifyRangeProof(root, range, proof, spec);
+        t.same(verified.map(({ key, value }) => key + value), entries.map(({ key, value }) => key + value), 'verified range ' + JSON.stringify(range));
+        if (entries.length > 1) {
+            try {
+                await verifyRangeProof(root, range, proof.filter((_, i) => i !== proof.length - 1), spec);
+                t.fail('incomplete range proof should throw');
+            } catch (e) {
+                t.pass('incomplete range proof throws');
+            }
+        }
+    }
+
+    t.end();
+});
+
+tape('verify test', async (t) => {
+    const N = 1e4;
+
+    const { data, dataCIDs, map } = await keyFixture(N);
+    const root = await BTREE.create(map);
+
+    t.same(await BTREE.verify(root), [], 'tree is ok');
+    t.same(await BTREE.verify(await BTREE.create(new Map())), [], 'empty tree is ok');
+    t.same(await BTREE.verify(await BTREE.apply(root, [ { type: 'del', key: data[5] }, { type: 'put', key: 'x', value: dataCIDs[0] } ])), [], 'updated tree is ok');
+
+    async function errorTypes (cid:CID) {
+        return Array.from(new Set((await BTREE.verify(cid)).map((e) => e.type))).sort();
+    }
+
+    const node = await BTREE.parseNode(root);
+    const count = node.count.slice();
+    count[1] += 1;
+    t.same(await errorTypes(await BTREE.serializeNode(false, count, node.keys, node.hashes)), [ 'count' ], 'bad count');
+
+    const keys = node.keys.slice();
+    keys[1] = 'a';
+    t.same(await errorTypes(await BTREE.serializeNode(false, node.count, keys, node.hashes)), [ 'key', 'order' ], 'bad keys');
+
+    const child = await BTREE.parseNode(node.hashes[1]);
+    const badChild = await BTREE.serializeNode(!child.leaf, child.count, child.keys, child.hashes);
+    const childHashes = node.hashes.slice();
+    childHashes[1] = badChild;
+    t.same((await errorTypes(await BTREE.serializeNode(false, node.count, node.keys, childHashes))).indexOf('leaf') >= 0, true, 'bad leaf flag');
+
+    const missing = (await encode({ value: 'not stored', hasher: DEFAULT_FORMATS.hasher, codec: DEFAULT_FORMATS.codec })).cid;
+    const hashes = node.hashes.slice();
+    hashes[1] = missing;
+    t.same(await errorTypes(await BTREE.serializeNode(false, node.count, node.keys, hashes)), [ 'missing' ], 'missing block');
+    const firstHashes = node.hashes.slice();
+    firstHashes[0] = missing;
+    const firstMissing = await BTREE.verify(await BTREE.serializeNode(false, node.count, node.keys, firstHashes));
+    t.equals(firstMissing.filter((e) => e.type === 'missing').length, 1, 'missing first child is reported once');
+    const emptyHashes = node.hashes.slice();
+    emptyHashes[0] = await BTREE.serializeNode(false, [], [], []);
+    t.ok((await errorTypes(await BTREE.serializeNode(false, node.count, node.keys, emptyHashes))).indexOf('chunk') >= 0, 'empty internal node');
+
+    // a single leaf with too many entries
+    const leaf = await BTREE.serializeNode(true, data.map(() => 1), data, dataCIDs);
+    t.same(await errorTypes(leaf), [ 'chunk' ], 'bad chunk boundary');
+
+    t.end();
+});
+
+tape('key chunking', async (t) => {
+    const N = 1e4;
+    const compare = BTREE.compare;
+    const byKey = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, compare, { chunking: 'key' });
+    const byBoth = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, compare, { chunking: 'key+value' });
+
+    const { data, dataCIDs, map } = await keyFixture(N);
+
+    // keys of every node on each level
+    async function shape (tree:RabinBTree<string>, root:CID) {
+        const levels:string[][][] = [];
+        let nodes = [ root ];
+        while (nodes.length > 0) {
+            const next:CID[] = [];
+            const level:string[][] = [];
+            for (const cid of nodes) {
+                const node = await tree.parseNode(cid);
+                level.push(node.keys);
+                if (!node.leaf) {
+                    next.push(...node.hashes);
+                }
+            }
+            levels.push(level);
+            nodes = next;
+        }
+        return levels;
+    }
+
+    // repeated values still get split
+    const same = new Map<string, CID>();
+    data.forEach((key) => same.set(key, dataCIDs[0]));
+    const sameShape = await shape(BTREE, await BTREE.create(same));
+    t.ok(sameShape[sameShape.length - 1].every((keys, i, leaves) => keys.length >= 1024 || i === leaves.length - 1), 'value chunking only splits repeated values at max size');
+    for (const tree of [ byKey, byBoth ]) {
+        const root = await tree.create(same);
+        const leaves = (await shape(tree, root)).pop();
+        t.ok(leaves.length > N / 1024 + 1 && leaves.some((keys) => keys.length < 1024), tree.options.chunking + ' chunking splits repeated values');
+        t.same(await tree.verify(root), [], tree.options.chunking + ' tree is ok');
+    }
+
+    // updating values doesn't change the shape of the tree
+    const root = await byKey.create(map);
+    const updated = await byKey.apply(root, data.filter((_, i) => i % 3 === 0).map((key, i) => ({ type: 'put', key, value: dataCIDs[i] })));
+    t.same(await shape(byKey, updated), await shape(byKey, root), 'shape is stable under value updates');
+    t.same(await shape(byKey, await byKey.create(same)), await shape(byKey, root), 'shape only depends on keys');
+
+    // all the update methods agree with create
+    for (const tree of [ byKey, byBoth ]) {
+        const root = await tree.create(map);
+        const mode = tree.options.chunking;
+        t.same(await tree.verify(root), [], mode + ' tree is ok');
+
+        async function* stream () {
+            for (let i = 0; i < N; ++i) {
+                yield { key: data[i], value: dataCIDs[i] };
+            }
+        }
+        t.equals((await tree.build(stream())).toString(), root.toString(), mode + ' build');
+
+        const expectedMap = new Map(map);
+        const ops:RabinBTreeOp<string>[] = [];
+        for (let i = 0; i < 200; ++i) {
+            const idx = (Math.random() * N) | 0;
+            if (Math.random() < 0.5) {
+                ops.push({ type: 'del', key: data[idx] });
+                expectedMap.delete(data[idx]);
+            } else {
+                ops.push({ type: 'put', key: 'new:' + idx, value: dataCIDs[idx] });
+                expectedMap.set('new:' + idx, dataCIDs[idx]);
+            }
+        }
+        const expected = await tree.create(expectedMap);
+        t.equals((await tree.apply(root, ops)).toString(), expected.toString(), mode + ' apply');
+
+        let cur = root;
+        for (const op of ops.slice(0, 20)) {
+            cur = op.type === 'put' ? await tree.upsert(cur, op.key, op.value) : await tree.remove(cur, op.key);
+        }
+        t.equals(cur.toString(), (await tree.apply(root, ops.slice(0, 20))).toString(), mode + ' upsert/remove');
+        t.same(await tree.verify(cur), [], mode + ' updated tree is ok');
+    }
+
+    // the mode is recorded in every node, so verify finds nodes built with a different mode
+    for (const { format, codec } of [ { format: NODE_FORMAT_V0, codec: DEFAULT_FORMATS.codec }, { format: NODE_FORMAT_V1, codec: dagCborCodec } ]) {
+        const tree = new RabinBTree<string>(DEFAULT_FORMATS.hasher, codec, DEFAULT_FORMATS.storage, compare, { format, chunking: 'key' });
+        const plain = new RabinBTree<string>(DEFAULT_FORMATS.hasher, codec, DEFAULT_FORMATS.storage, compare, { format });
+        const root = await tree.create(map);
+        t.equals((await tree.parseNode(root)).chunking, 'key', 'mode is recorded, format ' + format);
+        t.equals((await plain.parseNode(await plain.create(map))).chunking, 'value', 'default mode, format ' + format);
+        t.ok((await plain.verify(root)).some((e) => e.type === 'chunk' && e.message.indexOf('chunking mode key') >= 0), 'mode mismatch is reported, format ' + format);
+        t.ok((await byBoth.verify(root)).some((e) => e.type === 'chunk'), 'other mode is reported, format ' + format);
+    }
+
+    // updates don't copy subtrees chunked in a different mode
+    const keyRoot = await byKey.create(map);
+    const valueRoot = await BTREE.create(map);
+    const mixed:[string, () => Promise<CID>][] = [
+        [ 'upsert', () => BTREE.upsert(keyRoot, 'new', dataCIDs[0]) ],
+        [ 'apply', () => BTREE.apply(keyRoot, [ { type: 'del', key: data[5] } ]) ],
+        [ 'union', () => BTREE.union(valueRoot, keyRoot) ],
+        [ 'remove range', () => byKey.removeRange(valueRoot, { lo: 10, hi: 20 }) ],
+    ];
+    for (const [ name, update ] of mixed) {
+        try {
+            await update();
+            t.fail(name + ' with a different mode should throw');
+        } catch (e) {
+            t.ok(/chunking mode/.test(e.message), name + ' with a different mode throws');
+        }
+    }
+
+    t.end();
+});
+
+tape('chunker config', async (t) => {
+    const N = 2000;
+    const chunker = { min: 8, max: 128, average: 40, window: 16 };
+    const compare = BTREE.compare;
+
+    const { data, dataCIDs, map } = await keyFixture(N);
+
+    for (const format of [ NODE_FORMAT_V0, NODE_FORMAT_V1 ]) {
+        const tree = new RabinBTree<string>(DEFAULT_FORMATS.hasher, dagCborCodec, DEFAULT_FORMATS.storage, compare, { chunker, format });
+        const root = await tree.create(map);
+        t.same(await tree.chunkerOf(root), { ...chunker, maxBytes: 0 }, 'config is recorded in root, format ' + format);
+        t.same(await tree.verify(root), [], 'tree is ok');
+        t.ok((await BTREE.verify(root)).some((e) => e.type === 'chunk'), 'tree does not match default config');
+        t.ok((await BTREE.parseNode(root)).hashes.length > 1 && (await tree.size(root)) === N, 'smaller nodes');
+
+        async function* stream () {
+            for (let i = 0; i < N; ++i) {
+                yield { key: data[i], value: dataCIDs[i] };
+            }
+        }
+        t.equals((await tree.build(stream())).toString(), root.toString(), 'build');
+
+        const expectedMap = new Map(map);
+        const ops:RabinBTreeOp<string>[] = [];
+        for (let i = 0; i < N; i += 7) {
+            ops.push({ type: 'del', key: data[i] });
+            expectedMap.delete(data[i]);
+        }
+        const expected = await tree.create(expectedMap);
+        t.equals((await tree.apply(root, ops)).toString(), expected.toString(), 'apply');
+
+        let cur = root;
+        for (const op of ops.slice(0, 10)) {
+            cur = await tree.remove(cur, op.key);
+        }
+        t.equals(cur.toString(), (await tree.apply(root, ops.slice(0, 10))).toString(), 'remove');
+        t.same(await tree.chunkerOf(cur), { ...chunker, maxBytes: 0 }, 'config is kept after updates');
+    }
+
+    t.same(await BTREE.chunkerOf(await BTREE.create(map)), DEFAULT_CHUNKER, 'default config');
+
+    // updates don't copy subtrees built with other parameters
+    const small = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, compare, { chunker });
+    const smallRoot = await small.create(map);
+    const defaultRoot = await BTREE.create(map);
+    const mixed:[string, () => Promise<CID>][] = [
+        [ 'upsert', () => BTREE.upsert(smallRoot, 'new', dataCIDs[0]) ],
+        [ 'union', () => small.union(smallRoot, defaultRoot) ],
+        [ 'join', async () => BTREE.join((await BTREE.split(defaultRoot, data[N >> 1]))[0], (await small.split(smallRoot, data[N >> 1]))[1]) ],
+    ];
+    for (const [ name, update ] of mixed) {
+        try {
+            await update();
+            t.fail(name + ' with different parameters should throw');
+        } catch (e) {
+            t.ok(/different chunker parameters/.test(e.message), name + ' with different parameters throws');
+        }
+    }
+
+    t.end();
+});
+
+tape('byte limit', async (t) => {
+    const N = 2000;
+    const maxBytes = 1 << 16;
+    const compare = BTREE.compare;
+
+    // long keys, so that nodes would be way over the limit if we only counted entries
+    const data:string[] = [];
+    for (let i = 0; i < N; ++i) {
+        let x = '';
+        for (let j = 0; j < 60; ++j) {
+            x += Math.random().toString(36).slice(2);
+        }
+        data.push(x);
+    }
+    data.sort();
+    const dataCIDs = await Promise.all(data.map((value) => encodeJSON({
+        value,
+        ...DEFAULT_FORMATS
+    })));
+    const map = new Map<string, CID>();
+    dataCIDs.forEach((cid, k) => map.set(data[k], cid));
+
+    for (const codec of [ DEFAULT_FORMATS.codec, dagCborCodec ]) {
+        const tree = new RabinBTree<string>(DEFAULT_FORMATS.hasher, codec, DEFAULT_FORMATS.storage, compare, { chunker: { maxBytes } });
+        const root = await tree.create(map);
+
+        let largest = 0;
+        for (let nodes = [ root ]; nodes.length > 0; ) {
+            const next:CID[] = [];
+            for (const cid of nodes) {
+                const block:Block<any> = await DEFAULT_FORMATS.storage.get(cid);
+                largest = Math.max(largest, block.bytes.length);
+                const node = await tree.parseNode(cid);
+                if (!node.leaf) {
+                    next.push(...node.hashes);
+                }
+            }
+            nodes = next;
+        }
+        t.ok(largest <= maxBytes, `largest node is ${largest} bytes, ${codec.name}`);
+        t.ok((await BTREE.parseNode(await BTREE.create(map))).count.some((c) => c * 800 > maxBytes), 'nodes are too big without the limit');
+        t.same(await tree.verify(root), [], 'tree is ok');
+
+        async function* stream () {
+            for (let i = 0; i < N; ++i) {
+                yield { key: data[i], value: dataCIDs[i] };
+            }
+        }
+        t.equals((await tree.build(stream())).toString(), root.toString(), 'build');
+
+        const expectedMap = new Map(map);
+        const ops:RabinBTreeOp<string>[] = [];
+        for (let i = 0; i < N; i += 13) {
+            ops.push({ type: 'del', key: data[i] });
+            expectedMap.delete(data[i]);
+        }
+        t.equals((await tree.apply(root, ops)).toString(), (await tree.create(expectedMap)).toString(), 'apply');
+        t.equals((await tree.upsert(root, data[0] + 'x', dataCIDs[0])).toString(), (await tree.apply(root, [ { type: 'put', key: data[0] + 'x', value: dataCIDs[0] } ])).toString(), 'upsert');
+    }
+
+    // boundaries must not depend on the entries after them, otherwise updates right after a boundary are not canonical
+    const varied = new Map<string, CID>();
+    for (let i = 0; i < 500; ++i) {
+        varied.set(data[i].slice(0, 10 + ((i * 7919) % 900)), dataCIDs[i]);
+    }
+    const small = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, compare, { chunker: { maxBytes: 1 << 13 } });
+    const smallRoot = await small.create(varied);
+    // the keys of the level below the root are the first keys of the nodes on the level after that
+    const rootNode = await small.parseNode(smallRoot);
+    const firstKeys:string[] = [];
+    for (const child of rootNode.hashes) {
+        const node = await small.parseNode(child);
+        t.notOk(node.leaf, 'tree has at least 3 levels');
+        firstKeys.push(...node.keys);
+    }
+    for (const key of firstKeys.slice(1)) {
+        const removed = new Map(varied);
+        removed.delete(key);
+        t.equals((await small.remove(smallRoot, key)).toString(), (await small.create(removed)).toString(), 'remove first key of a node');
+        const added = new Map(varied);
+        added.set(key.slice(0, -1), dataCIDs[0]);
+        t.equals((await small.upsert(smallRoot, key.slice(0, -1), dataCIDs[0])).toString(), (await small.create(added)).toString(), 'insert before a node');
+    }
+
+    t.end();
+});
@@ -0,0 +1,86 @@
+import tape = require('tape');
+import { NodeCache } from '../cache';
+import { DEFAULT_CHUNKER } from '../chunk';
+import { CID } from '../multiformat';
+import { RabinBTree } from '../rabin-b-tree';
+import { RabinList } from '../rabin-list';
+import { DEFAULT_FORMATS, encodeJSON } from "./helpers";
+
+tape('lru eviction', async (t) => {
+    const cache = new NodeCache(3, 100);
+    cache.set('a', 1, 10);
+    cache.set('b', 2, 10);
+    cache.set('c', 3, 10);
+    t.equals(cache.get('a'), 1, 'get a');
+    cache.set('d', 4, 10);
+    t.equals(cache.size, 3, 'bounded by node count');
+    t.equals(cache.get('b'), undefined, 'least recently used node evicted');
+    t.equals(cache.get('a'), 1, 'recently used node kept');
+
+    cache.set('e', 5, 85);
+    t.equals(cache.get('c'), undefined, 'bounded by bytes');
+    t.ok(cache.bytes <= 100, 'byte count ok');
+
+    cache.set('f', 6, 1000);
+    t.equals(cache.get('f'), undefined, 'oversized nodes are not cached');
+
+    t.equals(cache.hits, 2, 'hits');
+    t.equals(cache.misses, 3, 'misses');
+    t.equals(cache.hitRate(), 2 / 5, 'hit rate');
+
+    t.end();
+});
+
+tape('shared tree cache', async (t) => {
+    const cache = new NodeCache(1024);
+    const list = new RabinList(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, { cache });
+    const btree = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, (a, b) => {
+        if (a < b) {
+            return -1;
+        } else if (a === b) {
+            return 0;
+        }
+        return 1;
+    }, { cache });
+
+    const cids = await Promise.all([...Array(1000)].map((_, i) => encodeJSON({
+        value: 'cache' + i,
+        ...DEFAULT_FORMATS
+    })));
+    const map = new Map<string, CID>();
+    cids.forEach((cid, i) => map.set('key' + i, cid));
+
+    const listRoot = await list.create(cids);
+    const treeRoot = await btree.create(map);
+
+    for (let i = 0; i < 3; ++i) {
+        for (let j = 0; j < cids.length; j += 97) {
+            t.equals((await list.at(listRoot, j)).toString(), cids[j].toString(), 'list at ' + j);
+            t.equals((await btree.eq(treeRoot, 'key' + j)).toString(), cids[j].toString(), 'btree eq ' + j);
+        }
+    }
+    t.ok(cache.hitRate() > 0.5, 'repeated lookups hit the cache');
+
+    // splice must not modify cached nodes
+    await list.splice(listRoot, 10, 5, cids[0]);
+    t.same(await list.size(listRoot), cids.length, 'cached root unchanged');
+    t.equals((await list.at(listRoot, 12)).toString(), cids[12].toString(), 'cached leaf unchanged');
+
+    // cached nodes are shared by reference, so they can not be modified
+    const node = await btree.parseNode(treeRoot);
+    t.equals(await btree.parseNode(treeRoot), node, 'cached node is shared');
+    t.ok(Object.isFrozen(node) && Object.isFrozen(node.keys) && Object.isFrozen(node.hashes), 'cached node is frozen');
+    try {
+        node.keys.push('oops');
+        t.fail('modifying a cached node should throw');
+    } catch (e) {
+        t.pass('modifying a cached node throws');
+    }
+    t.equals((await btree.eq(treeRoot, 'key0')).toString(), cids[0].toString(), 'cached node unchanged');
+
+    // objects the node points to are not frozen, the default chunker config is shared by every tree
+    t.equals(node.chunker, DEFAULT_CHUNKER, 'node has the default config');
+    t.notOk(Object.isFrozen(DEFAULT_CHUNKER), 'default config is not frozen');
+
+    t.end();
+});
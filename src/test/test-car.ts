@@ -0,0 +1,81 @@
+import tape = require('tape');
+import { exportCAR, importCAR } from '../car';
+import { CID } from '../multiformat';
+import { RabinBTree } from '../rabin-b-tree';
+import { RabinList } from '../rabin-list';
+import { compare, dagCborCodec, DEFAULT_FORMATS, encodeJSON, MemoryStorage } from "./helpers";
+
+async function toBytes (car:AsyncIterable<Uint8Array>) {
+    const chunks:number[] = [];
+    for await (const chunk of car) {
+        chunks.push(...Array.from(chunk));
+    }
+    return new Uint8Array(chunks);
+}
+
+// splits bytes into small chunks to exercise buffering
+function* split (bytes:Uint8Array, size:number) {
+    for (let i = 0; i < bytes.length; i += size) {
+        yield bytes.subarray(i, i + size);
+    }
+}
+
+tape('export and import', async (t) => {
+    const storage = new MemoryStorage();
+    const formats = { ...DEFAULT_FORMATS, storage };
+    const list = new RabinList(formats.hasher, dagCborCodec, storage);
+    const btree = new RabinBTree<string>(formats.hasher, formats.codec, storage, compare);
+
+    const cids = await Promise.all([...Array(2000)].map((_, i) => encodeJSON({
+        value: 'car' + i,
+        ...formats
+    })));
+    const map = new Map<string, CID>();
+    cids.forEach((cid, i) => map.set('key' + i, cid));
+    const listRoot = await list.create(cids);
+    const treeRoot = await btree.create(map);
+    const spec = { hashers: [ formats.hasher ], codecs: [ formats.codec, dagCborCodec ] };
+
+    for (const [ name, tree, root ] of [ [ 'list', list, listRoot ], [ 'btree', btree, treeRoot ] ] as [string, RabinList|RabinBTree<string>, CID][]) {
+        const bytes = await toBytes(exportCAR(tree, root));
+        const target = new MemoryStorage();
+        const roots = await importCAR(target, split(bytes, 1000), spec);
+        t.same(roots.map(String), [ root.toString() ], name + ' roots');
+
+        if (tree instanceof RabinList) {
+            const copy = new RabinList(formats.hasher, dagCborCodec, target);
+            let i = 0;
+            for await (const item of copy.scan(root)) {
+                t.ok(item.equals(cids[i]) && await target.get(item), name + ' item ' + i);
+                i += 1;
+            }
+            t.equals(i, cids.length, name + ' size');
+        } else {
+            const copy = new RabinBTree<string>(formats.hasher, formats.codec, target, compare);
+            let i = 0;
+            for await (const { key, value } of copy.scan(root)) {
+                t.ok(map.get(key).equals(value) && await target.get(value), name + ' entry ' + key);
+                i += 1;
+            }
+            t.equals(i, cids.length, name + ' size');
+        }
+
+        // corrupt the last byte of the archive
+        const corrupt = bytes.slice();
+        corrupt[corrupt.length - 1] ^= 1;
+        try {
+            await importCAR(new MemoryStorage(), [ corrupt ], spec);
+            t.fail(name + ' corrupt archive should throw');
+        } catch (e) {
+            t.pass(name + ' corrupt archive throws');
+        }
+        try {
+            await importCAR(new MemoryStorage(), [ bytes.subarray(0, bytes.length - 1) ], spec);
+            t.fail(name + ' truncated archive should throw');
+        } catch (e) {
+            t.pass(name + ' truncated archive throws');
+        }
+    }
+
+    t.end();
+});
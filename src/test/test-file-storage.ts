@@ -0,0 +1,95 @@
+import tape = require('tape');
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileStorage } from '../file-storage';
+import { collectGarbage } from '../gc';
+import { BlockNotFoundError, CID, encode } from '../multiformat';
+import { RabinBTree } from '../rabin-b-tree';
+import { compare, dagCborCodec, DEFAULT_FORMATS, encodeJSON, jsonCodec, sha256Hasher } from "./helpers";
+
+tape('file storage', async (t) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rabin-file-storage-'));
+    const options = { codecs: [ jsonCodec, dagCborCodec ], hashers: [ sha256Hasher ], verify: true };
+
+    try {
+        const storage = new FileStorage(dir, options);
+        const formats = { ...DEFAULT_FORMATS, storage };
+        const btree = new RabinBTree<string>(formats.hasher, dagCborCodec, storage, compare);
+
+        const cids = await Promise.all([...Array(1000)].map((_, i) => encodeJSON({
+            value: 'file' + i,
+            ...formats
+        })));
+        const map = new Map<string, CID>();
+        cids.forEach((cid, i) => map.set('key' + i, cid));
+        const root = await btree.create(map);
+        const updated = await btree.remove(root, 'key5');
+
+        // a new instance sees everything written by the old one
+        const reopened = new RabinBTree<string>(formats.hasher, dagCborCodec, new FileStorage(dir, options), compare);
+        t.equals(await reopened.size(root), 1000, 'size after reopening');
+        for (let i = 0; i < 1000; i += 97) {
+            t.equals((await reopened.eq(root, 'key' + i)).toString(), cids[i].toString(), 'read key' + i);
+        }
+        t.same(await reopened.verify(updated), [], 'tree is ok');
+        t.equals((await reopened.storage.get<string>(cids[3])).value, 'file3', 'read value');
+
+        // writing a block twice is fine
+        await storage.put(await encode({ value: 'file3', hasher: sha256Hasher, codec: jsonCodec }));
+        t.equals((await storage.get<string>(cids[3])).value, 'file3', 'rewrite value');
+
+        const missing = (await encode({ value: 'not stored', hasher: sha256Hasher, codec: jsonCodec })).cid;
+        try {
+            await storage.get(missing);
+            t.fail('missing block should throw');
+        } catch (e) {
+            t.ok(e instanceof BlockNotFoundError, 'missing block throws BlockNotFoundError');
+            t.ok(e.cid.equals(missing), 'error has cid');
+        }
+
+        // no temporary files are left behind
+        const keys:string[] = [];
+        for await (const cid of storage.keys()) {
+            keys.push(cid.toString());
+        }
+        t.ok(keys.indexOf(root.toString()) >= 0 && keys.indexOf(cids[0].toString()) >= 0, 'keys lists blocks');
+        const shards = await fs.readdir(dir);
+        for (const shard of shards) {
+            const files = await fs.readdir(path.join(dir, shard));
+            t.ok(files.every((f) => !f.endsWith('.tmp')), 'no temporary files in ' + shard);
+        }
+
+        // corrupted blocks are detected
+        const file = path.join(dir, cids[7].toString().slice(-3, -1), cids[7].toString());
+        await fs.writeFile(file, jsonCodec.encode('corrupted'));
+        try {
+            await storage.get(cids[7]);
+            t.fail('corrupted block should throw');
+        } catch (e) {
+            t.ok(/hash mismatch/.test(e.message), 'corrupted block throws');
+        }
+        const unverified = new FileStorage(dir, { codecs: options.codecs });
+        t.equals((await unverified.get<string>(cids[7])).value, 'corrupted', 'corruption is not checked without verify');
+
+        // files which are not blocks are skipped
+        const shard = path.dirname(file);
+        await fs.writeFile(path.join(shard, '.DS_Store'), 'stray');
+        await fs.writeFile(path.join(shard, cids[8].toString() + '.123.0.tmp'), 'partial');
+        const listed:string[] = [];
+        for await (const cid of storage.keys()) {
+            listed.push(cid.toString());
+        }
+        t.same(listed.sort(), keys.sort(), 'stray files are not listed');
+
+        // garbage collection
+        await fs.writeFile(file, jsonCodec.encode('file7'));
+        const removed = await collectGarbage(storage, [ { tree: btree, root: updated } ]);
+        t.ok(removed > 0, 'removed ' + removed + ' blocks');
+        t.same(await btree.verify(updated), [], 'live tree is ok after gc');
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+    }
+
+    t.end();
+});
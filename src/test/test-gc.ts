@@ -0,0 +1,59 @@
+import tape = require('tape');
+import { collectGarbage, markReachable } from '../gc';
+import { CID } from '../multiformat';
+import { RabinBTree } from '../rabin-b-tree';
+import { RabinList } from '../rabin-list';
+import { DEFAULT_FORMATS, encodeJSON, MemoryStorage } from "./helpers";
+
+tape('garbage collection', async (t) => {
+    const storage = new MemoryStorage();
+    const formats = { ...DEFAULT_FORMATS, storage };
+    const list = new RabinList(formats.hasher, formats.codec, storage);
+    const btree = new RabinBTree<string>(formats.hasher, formats.codec, storage, (a, b) => {
+        if (a < b) {
+            return -1;
+        } else if (a === b) {
+            return 0;
+        }
+        return 1;
+    });
+
+    const cids = await Promise.all([...Array(2000)].map((_, i) => encodeJSON({
+        value: 'gc' + i,
+        ...formats
+    })));
+    const map = new Map<string, CID>();
+    cids.forEach((cid, i) => map.set('key' + i, cid));
+
+    // make a bunch of garbage
+    const listRoot = await list.create(cids.slice(0, 1000));
+    let treeRoot = await btree.create(map);
+    for (let i = 0; i < 50; ++i) {
+        treeRoot = await btree.remove(treeRoot, 'key' + (i * 17));
+    }
+    await list.create(cids.slice(500));
+
+    const roots = [ { tree: list, root: listRoot }, { tree: btree, root: treeRoot } ];
+    const live = await markReachable(roots);
+    const before = storage.size;
+    const removed = await collectGarbage(storage, roots);
+    t.ok(removed > 0, 'removed ' + removed + ' blocks');
+    t.equals(storage.size, before - removed, 'storage size');
+    t.equals(storage.size, live.size, 'only live blocks remain');
+
+    // check that live trees are still intact
+    t.equals(await btree.size(treeRoot), cids.length - 50, 'tree size');
+    let count = 0;
+    for await (const { value } of btree.scan(treeRoot)) {
+        t.ok(await storage.get(value), 'value kept');
+        count += 1;
+    }
+    t.equals(count, cids.length - 50, 'scan tree');
+    for (let i = 0; i < 1000; i += 33) {
+        t.equals((await list.at(listRoot, i)).toString(), cids[i].toString(), 'list at ' + i);
+    }
+
+    t.equals(await collectGarbage(storage, roots), 0, 'nothing left to collect');
+
+    t.end();
+});
@@ -1,6 +1,10 @@
 import tape = require('tape');
-import { RabinList } from "../rabin-list";
-import { DEFAULT_FORMATS, encodeJSON, inspectList } from "./helpers";
+import { RabinList, RabinListRangeSpec, verifyListRangeProof } from "../rabin-list";
+import { NODE_FORMAT_V0 } from '../format';
+import { DEFAULT_CHUNKER, gear, hashBytes, nextChunk } from '../chunk';
+import { RabinBuilder } from '../builder';
+import { asCID, Block, CID } from '../multiformat';
+import { dagCborCodec, DEFAULT_FORMATS, encodeJSON, inspectList } from "./helpers";
 
 const LIST = new RabinList(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage);
 
@@ -87,6 +91,229 @@ tape('scan test', async (t) => {
     await testScan(0, Infinity);
     await testScan(500, 3000);
 
+    async function testReverseScan (options:RabinListRangeSpec) {
+        const expected = dataCIDs.slice(options.lo || 0, 'hi' in options ? options.hi : N).reverse()
+            .slice(0, 'limit' in options ? options.limit : Infinity);
+        const actual:CID[] = [];
+        for await (const x of LIST.scan(root, { ...options, reverse: true })) {
+            actual.push(x);
+        }
+        t.same(actual.map(String), expected.map(String), 'reverse scan ' + JSON.stringify(options));
+    }
+
+    await testReverseScan({});
+    await testReverseScan({ limit: 10 });
+    await testReverseScan({ lo: 500, hi: 3000 });
+    await testReverseScan({ lo: 500, hi: 3000, limit: 1000 });
+    await testReverseScan({ hi: 2e4, limit: 5 });
+    await testReverseScan({ lo: 3000, hi: 500 });
+    await testReverseScan({ lo: 2e4 });
+
+    t.end();
+});
+
+tape('build test', async (t) => {
+    const data:string[] = [];
+    for (let i = 0; i < 1e4; ++i) {
+        data.push('bbb' + i);
+    }
+    const cids = await Promise.all(data.map((value) => encodeJSON({
+        value,
+        ...DEFAULT_FORMATS
+    })));
+
+    async function* stream (n:number) {
+        for (let i = 0; i < n; ++i) {
+            yield cids[i];
+        }
+    }
+
+    for (const n of [ 0, 1, 100, cids.length ]) {
+        const expected = await LIST.create(cids.slice(0, n));
+        const actual = await LIST.build(stream(n));
+        t.equals(actual.toString(), expected.toString(), 'build ' + n + ' items');
+    }
+
+    // every entry is only fed to the chunker once
+    let calls = 0;
+    const builder = new RabinBuilder<undefined>((leaf, count, keys, hashes) => LIST.serializeNode(leaf, count, hashes), DEFAULT_CHUNKER, (level, i) => {
+        calls += 1;
+        return { hash: gear(level.hashes[i]), size: 0 };
+    });
+    for (const hash of cids) {
+        await builder.push(0, { count: 1, key: undefined, hash });
+    }
+    t.equals((await builder.finish()).toString(), (await LIST.create(cids)).toString(), 'builder');
+    t.ok(calls < 1.1 * cids.length, `chunker was called ${calls} times`);
+
+    t.end();
+});
+
+tape('range proof test', async (t) => {
+    const cids = await Promise.all([...Array(1e4)].map((_, i) => encodeJSON({
+        value: 'proof' + i,
+        ...DEFAULT_FORMATS
+    })));
+    const root = await LIST.create(cids);
+    const spec = { hasher: DEFAULT_FORMATS.hasher, codec: DEFAULT_FORMATS.codec };
+
+    for (const range of [ { lo: 0, hi: 10 }, { lo: 5000, hi: 6000 }, { lo: 9990, limit: 100 } ]) {
+        const { items, proof } = await LIST.proveRange(root, range);
+        t.same(items.map(String), cids.slice(range.lo, range.lo + items.length).map(String), 'items ' + JSON.stringify(range));
+        const verified = await verifyListRangeProof(root, range, proof, spec);
+        t.same(verified.map(String), items.map(String), 'verified range ' + JSON.stringify(range));
+        try {
+            await verifyListRangeProof(root, range, proof.slice(0, proof.length - 1), spec);
+            t.fail('incomplete range proof should throw');
+        } catch (e) {
+            t.pass('incomplete range proof throws');
+        }
+    }
+
+    const reverse = { hi: 5000, limit: 20, reverse: true };
+    const { items, proof } = await LIST.proveRange(root, reverse);
+    t.same(items.map(String), cids.slice(4980, 5000).reverse().map(String), 'items ' + JSON.stringify(reverse));
+    const verified = await verifyListRangeProof(root, reverse, proof, spec);
+    t.same(verified.map(String), items.map(String), 'verified range ' + JSON.stringify(reverse));
+
+    t.end();
+});
+
+tape('verify test', async (t) => {
+    const cids = await Promise.all([...Array(1e4)].map((_, i) => encodeJSON({
+        value: 'verify' + i,
+        ...DEFAULT_FORMATS
+    })));
+    const root = await LIST.create(cids);
+    t.same(await LIST.verify(root), [], 'list is ok');
+    t.same(await LIST.verify(await LIST.splice(root, 100, 1000, ...cids.slice(0, 10))), [], 'spliced list is ok');
+
+    const node = await LIST.parseNode(root);
+    const count = node.count.slice();
+    count[0] -= 1;
+    const errors = await LIST.verify(await LIST.serializeNode(false, count, node.hashes));
+    t.same(errors.map((e) => e.type), [ 'count' ], 'bad count');
+    t.same(errors[0].path, [ 0 ], 'error path');
+
+    t.end();
+});
+
+tape('link format', async (t) => {
+    const legacy = new RabinList(DEFAULT_FORMATS.hasher, dagCborCodec, DEFAULT_FORMATS.storage, { format: NODE_FORMAT_V0 });
+    const linked = new RabinList(DEFAULT_FORMATS.hasher, dagCborCodec, DEFAULT_FORMATS.storage);
+
+    const cids = await Promise.all([...Array(1000)].map((_, i) => encodeJSON({
+        value: 'link' + i,
+        ...DEFAULT_FORMATS
+    })));
+
+    const root = await linked.create(cids);
+    const block:Block<any> = await DEFAULT_FORMATS.storage.get(root);
+    t.equals(block.value.v, 1, 'root uses new format');
+    t.ok(block.value.links.every((l) => asCID(l)), 'children are native links');
+
+    const oldRoot = await legacy.create(cids);
+    const oldBlock:Block<any> = await DEFAULT_FORMATS.storage.get(oldRoot);
+    t.ok(Array.isArray(oldBlock.value), 'legacy list uses old format');
+    for (let i = 0; i < cids.length; i += 37) {
+        t.equals((await linked.at(oldRoot, i)).toString(), cids[i].toString(), 'read legacy list ' + i);
+    }
+
+    t.end();
+});
+
+tape('chunker config', async (t) => {
+    const chunker = { min: 4, max: 32, average: 12, window: 8 };
+    const small = new RabinList(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, { chunker });
+    const cids = await Promise.all([...Array(2000)].map((_, i) => encodeJSON({
+        value: 'chunker' + i,
+        ...DEFAULT_FORMATS
+    })));
+
+    const root = await small.create(cids);
+    t.same(await small.chunkerOf(root), { ...chunker, maxBytes: 0 }, 'config is recorded in root');
+    t.same(await LIST.chunkerOf(await LIST.create(cids)), DEFAULT_CHUNKER, 'default config');
+    t.same(await small.verify(root), [], 'list is ok');
+    t.ok((await LIST.verify(root)).some((e) => e.type === 'chunk'), 'list does not match default config');
+
+    const sizes:number[] = [];
+    for (let nodes = [ root ]; nodes.length > 0; ) {
+        const next = [];
+        for (const cid of nodes) {
+            const node = await small.parseNode(cid);
+            sizes.push(node.hashes.length);
+            if (!node.leaf) {
+                next.push(...node.hashes);
+            }
+        }
+        nodes = next;
+    }
+    t.ok(sizes.every((n) => n <= chunker.max + 1), 'nodes are at most max size');
+    const average = sizes.reduce((a, b) => a + b, 0) / sizes.length;
+    t.ok(average > chunker.min && average < 2 * chunker.average, 'average node size ' + average);
+
+    async function* stream () {
+        yield* cids;
+    }
+    t.equals((await small.build(stream())).toString(), root.toString(), 'build');
+    const spliced = await small.splice(root, 100, 50, ...cids.slice(0, 10));
+    const expected = cids.slice();
+    expected.splice(100, 50, ...cids.slice(0, 10));
+    t.equals(spliced.toString(), (await small.create(expected)).toString(), 'splice');
+
+    const defaults = new RabinList(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, { chunker: { min: 64 } });
+    t.equals((await defaults.create(cids)).toString(), (await LIST.create(cids)).toString(), 'default config is unchanged');
+
+    // the average of the default config is what its masks produce
+    const hashes = [...Array(1e6)].map((_, i) => hashBytes(new Uint8Array([ i & 255, (i >> 8) & 255, i >> 16 ])));
+    let chunks = 0;
+    let end = 0;
+    for (let next = nextChunk(hashes, 0, (h) => h); next >= 0; next = nextChunk(hashes, end, (h) => h)) {
+        chunks += 1;
+        end = next;
+    }
+    t.ok(Math.abs(end / chunks - DEFAULT_CHUNKER.average) < 0.05 * DEFAULT_CHUNKER.average, 'default average node size ' + end / chunks);
+    const sameAverage = new RabinList(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, { chunker: { average: DEFAULT_CHUNKER.average } });
+    t.equals((await sameAverage.create(cids)).toString(), (await LIST.create(cids)).toString(), 'default average gives the default config');
+
+    const limited = new RabinList(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, { chunker: { maxBytes: 4096 } });
+    const limitedRoot = await limited.create(cids);
+    const blocks:Block<any>[] = [];
+    for (let nodes = [ limitedRoot ]; nodes.length > 0; ) {
+        const next = [];
+        for (const cid of nodes) {
+            blocks.push(await DEFAULT_FORMATS.storage.get(cid));
+            const node = await limited.parseNode(cid);
+            if (!node.leaf) {
+                next.push(...node.hashes);
+            }
+        }
+        nodes = next;
+    }
+    t.ok(blocks.every((b) => b.bytes.length <= 4096), 'nodes respect byte limit');
+    t.same(await limited.verify(limitedRoot), [], 'limited list is ok');
+    const limitedSpliced = await limited.splice(limitedRoot, 100, 50, ...cids.slice(0, 10));
+    t.equals(limitedSpliced.toString(), (await limited.create(expected)).toString(), 'splice with byte limit');
+
+    // updates don't copy subtrees built with other parameters
+    const mixed:[string, () => Promise<CID>][] = [
+        [ 'splice', () => LIST.splice(root, 10, 1) ],
+        [ 'concat', () => small.concat(root, limitedRoot) ],
+        [ 'slice', () => limited.slice(root, 10, 1000) ],
+    ];
+    for (const [ name, update ] of mixed) {
+        try {
+            await update();
+            t.fail(name + ' with different parameters should throw');
+        } catch (e) {
+            t.ok(/different chunker parameters/.test(e.message), name + ' with different parameters throws');
+        }
+    }
+
+    for (const bad of [ { min: 10, average: 5 }, { window: 40 }, { average: 1e6, max: 2e6, window: 8 }, { maxBytes: 100 } ]) {
+        t.throws(() => new RabinList(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, { chunker: bad }), 'invalid config ' + JSON.stringify(bad));
+    }
+
     t.end();
 });
 
@@ -164,4 +391,52 @@ tape('splice', async (t) => {
     }
 
     t.end();
-});
\ No newline at end of file
+});
+
+tape('concat, slice and setRange', async (t) => {
+    const N = 1e4;
+    const cids = await Promise.all([...Array(N)].map((_, i) => encodeJSON({
+        value: 'seam' + i,
+        ...DEFAULT_FORMATS
+    })));
+    const excids = await Promise.all([...Array(3000)].map((_, i) => encodeJSON({
+        value: 'extra:' + i,
+        ...DEFAULT_FORMATS
+    })));
+    const [ empty, full ] = await Promise.all([ LIST.create([]), LIST.create(cids) ]);
+
+    for (const i of [ 0, 1, 100, 5000, N - 1, N ]) {
+        const [ a, b ] = await Promise.all([ LIST.create(cids.slice(0, i)), LIST.create(cids.slice(i)) ]);
+        t.equals((await LIST.concat(a, b)).toString(), full.toString(), 'concat at ' + i);
+        t.equals((await LIST.slice(full, 0, i)).toString(), a.toString(), 'slice to ' + i);
+        t.equals((await LIST.slice(full, i)).toString(), b.toString(), 'slice from ' + i);
+    }
+    t.equals((await LIST.concat(empty, empty)).toString(), empty.toString(), 'concat empty lists');
+
+    for (const [ lo, hi ] of [ [ 2000, 2100 ], [ 123, 9876 ], [ 5000, 5001 ], [ 7000, 7000 ], [ 9000, 2e4 ], [ -100, N ], [ -300, -100 ], [ 100, -100 ], [ -2e4, 50 ], [ 50, -2e4 ] ]) {
+        const expected = await LIST.create(cids.slice(lo, hi));
+        t.equals((await LIST.slice(full, lo, hi)).toString(), expected.toString(), `slice ${lo}, ${hi}`);
+    }
+
+    async function testSetRange (start:number, n:number) {
+        const expectedData = cids.slice();
+        expectedData.splice(start, n, ...excids.slice(0, n));
+        const expected = await LIST.create(expectedData);
+        const actual = await LIST.setRange(full, start, excids.slice(0, n));
+        t.equals(actual.toString(), expected.toString(), `set range start=${start}, items.length=${n}`);
+    }
+
+    await testSetRange(0, 1);
+    await testSetRange(2000, 1000);
+    await testSetRange(5000, 0);
+    await testSetRange(N - 10, 3000);
+    await testSetRange(N, 5);
+    try {
+        await LIST.setRange(full, N + 1, excids.slice(0, 1));
+        t.fail('set range past the end should throw');
+    } catch (e) {
+        t.pass('set range past the end throws');
+    }
+
+    t.end();
+});
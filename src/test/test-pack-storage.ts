@@ -0,0 +1,128 @@
+import tape = require('tape');
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PackStorage } from '../pack-storage';
+import { BlockNotFoundError, CID, encode } from '../multiformat';
+import { RabinBTree } from '../rabin-b-tree';
+import { compare, dagCborCodec, DEFAULT_FORMATS, encodeJSON, jsonCodec, sha256Hasher } from "./helpers";
+
+async function segments (dir:string) {
+    return (await fs.readdir(dir)).filter((f) => f.endsWith('.pack')).sort();
+}
+
+tape('pack storage', async (t) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rabin-pack-storage-'));
+    const options = { codecs: [ jsonCodec, dagCborCodec ], hashers: [ sha256Hasher ], verify: true, maxSegmentBytes: 1 << 16 };
+
+    try {
+        let storage = await PackStorage.open(dir, options);
+        const formats = { ...DEFAULT_FORMATS, storage };
+        const tree = () => new RabinBTree<string>(formats.hasher, dagCborCodec, storage, compare);
+
+        const cids = await Promise.all([...Array(2000)].map((_, i) => encodeJSON({
+            value: 'pack' + i,
+            ...formats
+        })));
+        const map = new Map<string, CID>();
+        cids.forEach((cid, i) => map.set('key' + i, cid));
+        const root = await tree().create(map);
+        await storage.close();
+        t.ok((await segments(dir)).length > 1, 'blocks are split over several segments');
+
+        // reopen from the saved index
+        storage = await PackStorage.open(dir, options);
+        t.equals(await tree().size(root), 2000, 'size after reopening');
+        for (let i = 0; i < 2000; i += 97) {
+            t.equals((await tree().eq(root, 'key' + i)).toString(), cids[i].toString(), 'read key' + i);
+        }
+        t.same(await tree().verify(root), [], 'tree is ok');
+
+        const missing = (await encode({ value: 'not stored', hasher: sha256Hasher, codec: jsonCodec })).cid;
+        try {
+            await storage.get(missing);
+            t.fail('missing block should throw');
+        } catch (e) {
+            t.ok(e instanceof BlockNotFoundError, 'missing block throws BlockNotFoundError');
+        }
+
+        // blocks written after the index was saved are recovered from the segment tail, and a partial record is dropped
+        let updated = root;
+        for (let i = 0; i < 20; ++i) {
+            updated = await tree().remove(updated, 'key' + (i * 31));
+        }
+        const last = path.join(dir, (await segments(dir)).pop());
+        const size = (await fs.stat(last)).size;
+        await fs.appendFile(last, new Uint8Array([ 100, 1, 2, 3 ]));
+        storage = await PackStorage.open(dir, options);
+        t.equals((await fs.stat(last)).size, size, 'partial record is truncated');
+        t.equals(await tree().size(updated), 1980, 'recovered updates');
+        t.same(await tree().verify(updated), [], 'recovered tree is ok');
+        const extra = await encodeJSON({ value: 'after recovery', ...formats, storage });
+        t.equals((await storage.get<string>(extra)).value, 'after recovery', 'write after recovery');
+
+        // compaction keeps only the live tree and blocks put after it started, reads during compaction wait for it
+        const before = storage.size;
+        const oldSegments = await segments(dir);
+        let compacted = false;
+        const compaction = storage.compact([ { tree: tree(), root: updated } ]).then((n) => {
+            compacted = true;
+            return n;
+        });
+        const written = encodeJSON({ value: 'written during compaction', ...formats, storage });
+        const rewritten = encodeJSON({ value: 'pack0', ...formats, storage });
+        let reads = 0;
+        try {
+            while (!compacted) {
+                const i = 1 + (reads++ % 30);
+                t.equals((await storage.get<string>(cids[i])).value, 'pack' + i, 'read during compaction');
+            }
+        } catch (e) {
+            t.fail('read during compaction failed: ' + e.message);
+        }
+        const removed = await compaction;
+        t.ok(removed > 0 && storage.size === before + 1 - removed, 'removed ' + removed + ' blocks');
+        t.equals((await storage.get<string>(await written)).value, 'written during compaction', 'new block put during compaction is kept');
+        t.equals((await storage.get<string>(await rewritten)).value, 'pack0', 'garbage put again during compaction is kept');
+        t.ok((await segments(dir)).every((f) => oldSegments.indexOf(f) < 0), 'old segments are deleted');
+        t.same(await tree().verify(updated), [], 'live tree is ok after compaction');
+        try {
+            await tree().size(root);
+            t.fail('garbage should be gone');
+        } catch (e) {
+            t.pass('garbage is gone');
+        }
+        await storage.close();
+
+        storage = await PackStorage.open(dir, options);
+        t.equals(storage.size, before + 1 - removed, 'index is saved after compaction');
+        t.same(await tree().verify(updated), [], 'tree is ok after reopening');
+
+        // a failed compaction leaves the index and the segments as they were
+        const append = (storage as any)._append;
+        let appends = 0;
+        (storage as any)._append = function (...args:any[]) {
+            if (++appends > 100) {
+                throw new Error('disk full');
+            }
+            return append.apply(this, args);
+        };
+        const compactedSegments = await segments(dir);
+        try {
+            await storage.compact([ { tree: tree(), root: updated } ]);
+            t.fail('compaction should fail');
+        } catch (e) {
+            t.equals(e.message, 'disk full', 'compaction fails');
+        }
+        delete (storage as any)._append;
+        t.equals(storage.size, before + 1 - removed, 'index is kept after a failed compaction');
+        t.same(await segments(dir), compactedSegments, 'new segments are removed after a failed compaction');
+        t.same(await tree().verify(updated), [], 'tree is ok after a failed compaction');
+        t.equals((await storage.get<string>(await written)).value, 'written during compaction', 'unreachable block is kept');
+        await storage.close();
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+    }
+
+    t.end();
+});
@@ -0,0 +1,114 @@
+import tape = require('tape');
+import { Block, CID, Storage } from '../multiformat';
+import { RabinBTree, RabinBTreeRangeSpec } from '../rabin-b-tree';
+import { RabinList, RabinListRangeSpec } from '../rabin-list';
+import { compare, DEFAULT_FORMATS, encodeJSON, MemoryStorage } from "./helpers";
+
+// counts round trips to the underlying storage
+class BatchStorage implements Storage {
+    public gets = 0;
+    public puts = 0;
+
+    constructor (public storage:Storage) {}
+
+    public async get<T> (cid:CID) {
+        this.gets += 1;
+        return this.storage.get<T>(cid);
+    }
+
+    public async put<T> (block:Block<T>) {
+        this.puts += 1;
+        return this.storage.put(block);
+    }
+
+    public async getMany<T> (cids:CID[]) {
+        this.gets += 1;
+        return Promise.all(cids.map((cid) => this.storage.get<T>(cid)));
+    }
+
+    public async putMany<T> (blocks:Block<T>[]) {
+        this.puts += 1;
+        await Promise.all(blocks.map((block) => this.storage.put(block)));
+    }
+
+    public reset () {
+        this.gets = 0;
+        this.puts = 0;
+    }
+}
+
+tape('btree batching', async (t) => {
+    const N = 2e4;
+    const storage = new BatchStorage(new MemoryStorage());
+    const formats = { ...DEFAULT_FORMATS, storage: storage.storage };
+    const plain = new RabinBTree<string>(formats.hasher, formats.codec, storage, compare);
+    const prefetching = new RabinBTree<string>(formats.hasher, formats.codec, storage, compare, { prefetch: 8 });
+
+    const data:string[] = [];
+    for (let i = 0; i < N; ++i) {
+        data.push('batch' + i);
+    }
+    data.sort();
+    const cids = await Promise.all(data.map((value) => encodeJSON({ value, ...formats })));
+    const map = new Map<string, CID>();
+    cids.forEach((cid, i) => map.set(data[i], cid));
+
+    const root = await plain.create(map);
+    // one batch per level
+    t.ok(storage.puts <= 4, `create writes ${storage.puts} batches`);
+
+    async function scan (tree:RabinBTree<string>, options?:RabinBTreeRangeSpec<string>) {
+        storage.reset();
+        const result:string[] = [];
+        for await (const { key } of tree.scan(root, options)) {
+            result.push(key);
+        }
+        return { result, gets: storage.gets };
+    }
+
+    for (const range of [ undefined, { lo: 1234, hi: 15000 }, { le: data[500], limit: 3000 }, { gt: data[15000], limit: 3000, reverse: true } ]) {
+        const expected = await scan(plain, range);
+        const actual = await scan(prefetching, range);
+        t.same(actual.result, expected.result, 'same entries ' + JSON.stringify(range));
+        t.ok(actual.gets < expected.gets * 0.6, `round trips ${actual.gets} < ${expected.gets}`);
+    }
+
+    storage.reset();
+    await plain.upsert(root, 'new', cids[0]);
+    const upsertPuts = storage.puts;
+    storage.reset();
+    await plain.remove(root, data[N >> 1]);
+    t.ok(upsertPuts <= 4 && storage.puts <= 4, `updates write ${upsertPuts}, ${storage.puts} batches`);
+
+    t.end();
+});
+
+tape('list batching', async (t) => {
+    const N = 2e4;
+    const storage = new BatchStorage(new MemoryStorage());
+    const formats = { ...DEFAULT_FORMATS, storage: storage.storage };
+    const plain = new RabinList(formats.hasher, formats.codec, storage);
+    const prefetching = new RabinList(formats.hasher, formats.codec, storage, { prefetch: 8 });
+
+    const cids = await Promise.all([...Array(N)].map((_, i) => encodeJSON({ value: 'item' + i, ...formats })));
+    const root = await plain.create(cids);
+    t.ok(storage.puts <= 4, `create writes ${storage.puts} batches`);
+
+    async function scan (list:RabinList, options?:RabinListRangeSpec) {
+        storage.reset();
+        const result:string[] = [];
+        for await (const cid of list.scan(root, options)) {
+            result.push(cid.toString());
+        }
+        return { result, gets: storage.gets };
+    }
+
+    for (const range of [ undefined, { lo: 1234, hi: 15000 }, { lo: 1234, hi: 15000, reverse: true } ]) {
+        const expected = await scan(plain, range);
+        const actual = await scan(prefetching, range);
+        t.same(actual.result, expected.result, 'same items ' + JSON.stringify(range));
+        t.ok(actual.gets < expected.gets * 0.6, `round trips ${actual.gets} < ${expected.gets}`);
+    }
+
+    t.end();
+});
@@ -0,0 +1,189 @@
+import tape = require('tape');
+import { CID } from '../multiformat';
+import { RabinBTree, RabinBTreeRangeSpec } from '../rabin-b-tree';
+import { RabinList } from '../rabin-list';
+import { RabinReducer } from '../reducer';
+import { NODE_FORMAT_V0, NODE_FORMAT_V1 } from '../format';
+import { compare, CountingStorage, dagCborCodec, DEFAULT_FORMATS, encodeJSON } from "./helpers";
+
+// sum and maximum of the numbers stored in the values
+const SUM_MAX:RabinReducer<any, [number, number]> = {
+    name: 'sum-max',
+    async map (value:CID) {
+        const x = (await DEFAULT_FORMATS.storage.get<number>(value)).value;
+        return [ x, x ];
+    },
+    combine (summaries:[number, number][]) {
+        let sum = 0;
+        let max = -Infinity;
+        for (const [ s, m ] of summaries) {
+            sum += s;
+            max = Math.max(max, m);
+        }
+        return [ sum, max === -Infinity ? null : max ];
+    },
+};
+
+function expectedSumMax (values:number[]) {
+    return SUM_MAX.combine(values.map((x) => [ x, x ]));
+}
+
+tape('btree reducer', async (t) => {
+    const N = 5000;
+    const data:string[] = [];
+    for (let i = 0; i < N; ++i) {
+        data.push('key' + i);
+    }
+    data.sort();
+    const numbers = data.map((_, i) => (i * 7919) % 1000);
+    const dataCIDs = await Promise.all(numbers.map((value) => encodeJSON({ value, ...DEFAULT_FORMATS })));
+    const map = new Map<string, CID>();
+    dataCIDs.forEach((cid, i) => map.set(data[i], cid));
+
+    for (const { format, codec } of [ { format: NODE_FORMAT_V0, codec: DEFAULT_FORMATS.codec }, { format: NODE_FORMAT_V1, codec: dagCborCodec } ]) {
+        const tree = new RabinBTree<string, [number, number]>(DEFAULT_FORMATS.hasher, codec, DEFAULT_FORMATS.storage, compare, { format, reducer: SUM_MAX });
+        const root = await tree.create(map);
+        t.same(await tree.verify(root), [], 'tree is ok, format ' + format);
+
+        async function testReduce (options:RabinBTreeRangeSpec<string>) {
+            const values:number[] = [];
+            for await (const { value } of tree.scan(root, options)) {
+                values.push((await DEFAULT_FORMATS.storage.get<number>(value)).value);
+            }
+            t.same(await tree.reduce(root, options), expectedSumMax(values), 'reduce ' + JSON.stringify(options));
+        }
+        await testReduce({});
+        await testReduce({ lo: 10, hi: 4000 });
+        await testReduce({ le: 'key2', gt: 'key3' });
+        await testReduce({ lt: 'key4999' });
+        await testReduce({ lo: 100, limit: 1 });
+        await testReduce({ gt: 'key9', limit: 50, reverse: true });
+        await testReduce({ le: 'zzz' });
+
+        // updates keep the summaries canonical
+        const updated = new Map(map);
+        updated.delete(data[17]);
+        updated.delete(data[4000]);
+        updated.set('key-new', dataCIDs[3]);
+        updated.set(data[100], dataCIDs[200]);
+        let actual = await tree.remove(root, data[17]);
+        actual = await tree.upsert(actual, 'key-new', dataCIDs[3]);
+        actual = await tree.apply(actual, [ { type: 'del', key: data[4000] }, { type: 'put', key: data[100], value: dataCIDs[200] } ]);
+        t.equals(actual.toString(), (await tree.create(updated)).toString(), 'updates, format ' + format);
+        t.same(await tree.verify(actual), [], 'updated tree is ok, format ' + format);
+
+        const [ left, right ] = await tree.split(root, data[2500]);
+        t.same(await tree.reduce(left), expectedSumMax(numbers.slice(0, 2500)), 'reduce left half');
+        t.equals((await tree.join(left, right)).toString(), root.toString(), 'join halves');
+        t.same(await tree.verify(await tree.union(left, actual)), [], 'union is ok');
+    }
+
+    // a range is reduced from the nodes along its edges
+    const storage = new CountingStorage(DEFAULT_FORMATS.storage);
+    const root = await new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, compare, { reducer: SUM_MAX }).create(map);
+    const counted = new RabinBTree<string, [number, number]>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, storage, compare, { reducer: SUM_MAX });
+    t.same(await counted.reduce(root, { lo: 100, hi: N - 100 }), expectedSumMax(numbers.slice(100, N - 100)), 'reduce large range');
+    t.ok(storage.reads < 10, `read ${storage.reads} nodes`);
+
+    // trees built with a different reducer are detected
+    const plain = new RabinBTree<string>(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, compare);
+    const plainRoot = await plain.create(map);
+    t.ok((await counted.verify(plainRoot)).some((e) => e.type === 'summary'), 'missing summaries are reported');
+    t.ok((await plain.verify(root)).some((e) => e.type === 'summary'), 'unexpected summaries are reported');
+    try {
+        await counted.reduce(plainRoot);
+        t.fail('reduce without summaries should throw');
+    } catch (e) {
+        t.pass('reduce without summaries throws');
+    }
+    try {
+        await plain.reduce(plainRoot);
+        t.fail('reduce without reducer should throw');
+    } catch (e) {
+        t.pass('reduce without reducer throws');
+    }
+
+    // subtrees without matching summaries are not copied into a new tree
+    const updates:[string, () => Promise<CID>][] = [
+        [ 'upsert', () => counted.upsert(plainRoot, 'key-new', dataCIDs[0]) ],
+        [ 'remove', () => counted.remove(plainRoot, data[10]) ],
+        [ 'apply', () => counted.apply(plainRoot, [ { type: 'put', key: 'key-new', value: dataCIDs[0] } ]) ],
+        [ 'remove range', () => counted.removeRange(plainRoot, { lo: 10, hi: 20 }) ],
+        [ 'union', () => counted.union(root, plainRoot) ],
+        [ 'update plain tree', () => plain.upsert(root, 'key-new', dataCIDs[0]) ],
+    ];
+    for (const [ name, update ] of updates) {
+        try {
+            await update();
+            t.fail(name + ' with a different reducer should throw');
+        } catch (e) {
+            t.ok(/different reducer/.test(e.message), name + ' with a different reducer throws');
+        }
+    }
+
+    // a wrong summary is reported
+    const node = await counted.parseNode(root);
+    const summaries = node.summaries.slice();
+    summaries[0] = [ 0, 0 ];
+    const bad = await counted.serializeNode(node.leaf, node.count, node.keys, node.hashes, summaries);
+    t.same((await counted.verify(bad)).map((e) => e.type), [ 'summary' ], 'wrong summary is reported');
+
+    t.end();
+});
+
+tape('list reducer', async (t) => {
+    const N = 5000;
+    const numbers = [...Array(N)].map((_, i) => (i * 7919) % 1000);
+    const cids = await Promise.all(numbers.map((value) => encodeJSON({ value, ...DEFAULT_FORMATS })));
+
+    for (const { format, codec } of [ { format: NODE_FORMAT_V0, codec: DEFAULT_FORMATS.codec }, { format: NODE_FORMAT_V1, codec: dagCborCodec } ]) {
+        const list = new RabinList<[number, number]>(DEFAULT_FORMATS.hasher, codec, DEFAULT_FORMATS.storage, { format, reducer: SUM_MAX });
+        const root = await list.create(cids);
+        t.same(await list.verify(root), [], 'list is ok, format ' + format);
+
+        for (const [ lo, hi ] of [ [ 0, N ], [ 0, 1 ], [ 123, 4567 ], [ 2000, 2000 ], [ 4000, 2e4 ] ]) {
+            t.same(await list.reduce(root, { lo, hi }), expectedSumMax(numbers.slice(lo, hi)), `reduce ${lo}, ${hi}`);
+        }
+        t.same(await list.reduce(root, { limit: 10, reverse: true }), expectedSumMax(numbers.slice(N - 10)), 'reduce last items');
+
+        // updates keep the summaries canonical
+        const expected = cids.slice();
+        expected.splice(1000, 200, ...cids.slice(0, 10));
+        const spliced = await list.splice(root, 1000, 200, ...cids.slice(0, 10));
+        t.equals(spliced.toString(), (await list.create(expected)).toString(), 'splice, format ' + format);
+        expected.splice(3000, 5, ...cids.slice(20, 25));
+        const set = await list.setRange(spliced, 3000, cids.slice(20, 25));
+        t.equals(set.toString(), (await list.create(expected)).toString(), 'set range, format ' + format);
+        const concat = await list.concat(set, await list.slice(root, 0, 100));
+        t.equals(concat.toString(), (await list.create(expected.concat(cids.slice(0, 100)))).toString(), 'concat, format ' + format);
+        t.same(await list.verify(concat), [], 'updated list is ok, format ' + format);
+    }
+
+    // summaries count towards the byte limit of a node
+    const limited = new RabinList(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, {
+        reducer: SUM_MAX,
+        chunker: { maxBytes: 2048 },
+    });
+    const root = await limited.create(cids);
+    t.same(await limited.verify(root), [], 'byte limited list is ok');
+    t.same(await limited.reduce(root, { lo: 10, hi: 20 }), expectedSumMax(numbers.slice(10, 20)), 'reduce byte limited list');
+
+    // lists built with a different reducer are not copied into a new list
+    const plain = new RabinList(DEFAULT_FORMATS.hasher, DEFAULT_FORMATS.codec, DEFAULT_FORMATS.storage, { chunker: { maxBytes: 2048 } });
+    const plainRoot = await plain.create(cids);
+    const updates:[string, () => Promise<CID>][] = [
+        [ 'splice', () => limited.splice(plainRoot, 10, 1) ],
+        [ 'concat', () => limited.concat(root, plainRoot) ],
+        [ 'slice plain list', () => plain.slice(root, 10, 4000) ],
+    ];
+    for (const [ name, update ] of updates) {
+        try {
+            await update();
+            t.fail(name + ' with a different reducer should throw');
+        } catch (e) {
+            t.ok(/different reducer/.test(e.message), name + ' with a different reducer throws');
+        }
+    }
+
+    t.end();
+});